@@ -16,6 +16,16 @@ const css = () => {return {
   }
 }}
 
+// Inline plugin to load the bundled Python package's source files as strings
+const python = () => {return {
+  name: "python",
+  transform(code, id) {
+    if (id.endsWith(".py")) {
+      return `export default ${JSON.stringify(code)}`;
+    }
+  }
+}}
+
 
 export default [{
   input: `src/index.ts`,
@@ -31,6 +41,24 @@ export default [{
     resolve(),
     commonjs(),
     css(),
+    python(),
+  ]
+},
+{
+  // Classic (non-module) worker script, the Pyodide loader uses importScripts when running in a worker.
+  input: `src/worker.ts`,
+  output: [
+    {file: 'dist/worker.js', format: 'iife'}
+  ],
+  plugins: [
+    typescript({
+      include: [
+          './src/*.ts',
+      ],
+    }),
+    resolve(),
+    commonjs(),
+    python(),
   ]
 },
 {
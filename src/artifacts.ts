@@ -0,0 +1,247 @@
+import { getPluginOpts } from "./opts";
+import type { PyodideLoadingProgress } from "./progress";
+
+/**
+ * Downloading Pyodide's artifacts (the interpreter and its packages) with progress, optionally through Cache Storage
+ * and checked against a manifest of SHA-256 hashes. Together with a self-hosted `artifactsUrl` the latter two allow
+ * running without network access.
+ * This module is used in the worker as well, so it can't depend on the DOM.
+ */
+
+export const DEFAULT_ARTIFACT_CACHE_NAME = "starboard-python-artifacts";
+
+// Files of the Pyodide distribution that are always loaded, packages are loaded on demand.
+const CORE_ARTIFACTS = ["pyodide.asm.js", "pyodide.asm.wasm", "pyodide.asm.data", "packages.json"];
+
+export interface ArtifactManifest {
+  /**
+   * Hex encoded SHA-256 hashes of the artifacts, keyed by their path relative to the artifacts URL.
+   * Artifacts outside of the artifacts URL (packages loaded from a custom URL) are keyed by their full URL.
+   */
+  files: Record<string, string>;
+}
+
+export interface ArtifactOptions {
+  /**
+   * Absolute URL of the directory the artifacts are served from, with a trailing slash.
+   */
+  artifactsUrl: string;
+  /**
+   * When set, artifacts that are missing from the manifest or don't match their hash are refused.
+   */
+  manifest?: ArtifactManifest;
+  /**
+   * Name of the Cache Storage cache artifacts are kept in, they are not cached by us if this is not set.
+   */
+  cacheName?: string;
+}
+
+export class ArtifactIntegrityError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ArtifactIntegrityError";
+  }
+}
+
+function getArtifactPath(url: string, opts: ArtifactOptions) {
+  return url.startsWith(opts.artifactsUrl) ? url.substring(opts.artifactsUrl.length) : url;
+}
+
+async function sha256(data: ArrayBuffer) {
+  const hash = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(hash))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+async function verifyArtifact(url: string, data: ArrayBuffer, manifest: ArtifactManifest, opts: ArtifactOptions) {
+  const path = getArtifactPath(url, opts);
+  const expected = manifest.files[path];
+  if (expected === undefined) {
+    throw new ArtifactIntegrityError(`Pyodide artifact "${path}" is not listed in the artifact manifest.`);
+  }
+
+  const actual = await sha256(data);
+  if (actual !== expected.toLowerCase()) {
+    throw new ArtifactIntegrityError(
+      `Pyodide artifact "${path}" failed its integrity check: expected SHA-256 ${expected} but got ${actual}. ` +
+        `The file is corrupt or the artifact manifest is out of date.`
+    );
+  }
+}
+
+async function readWithProgress(
+  response: Response,
+  onProgress: (loadedBytes: number, totalBytes?: number) => void
+): Promise<ArrayBuffer> {
+  // The Content-Length is that of the compressed body if the response is compressed.
+  const contentLength = Number(response.headers.get("Content-Length")) || undefined;
+  const totalBytes = response.headers.get("Content-Encoding") ? undefined : contentLength;
+  if (!response.body) {
+    return response.arrayBuffer();
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let loadedBytes = 0;
+  onProgress(loadedBytes, totalBytes);
+  for (;;) {
+    const chunk = await reader.read();
+    if (chunk.done || !chunk.value) {
+      break;
+    }
+    chunks.push(chunk.value);
+    loadedBytes += chunk.value.length;
+    onProgress(loadedBytes, totalBytes !== undefined && loadedBytes <= totalBytes ? totalBytes : undefined);
+  }
+
+  const data = new Uint8Array(loadedBytes);
+  let offset = 0;
+  for (const chunk of chunks) {
+    data.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return data.buffer;
+}
+
+/**
+ * Fetches an artifact from the cache, or from the network in which case it is added to the cache.
+ * Throws an `ArtifactIntegrityError` if it doesn't match the manifest, in which case it isn't cached.
+ */
+export async function fetchArtifact(
+  url: string,
+  opts: ArtifactOptions,
+  onProgress?: (loadedBytes: number, totalBytes?: number) => void
+): Promise<Blob> {
+  const cache = opts.cacheName !== undefined ? await caches.open(opts.cacheName) : undefined;
+
+  let response = await cache?.match(url);
+  const isCached = response !== undefined;
+  if (!response) {
+    response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch Pyodide artifact ${url}: ${response.status} ${response.statusText}`);
+    }
+  }
+
+  const data = onProgress ? await readWithProgress(response, onProgress) : await response.arrayBuffer();
+  // Cached artifacts are checked as well, the cache can be cleared or modified from outside.
+  if (opts.manifest) {
+    await verifyArtifact(url, data, opts.manifest, opts);
+  }
+  if (cache && !isCached) {
+    await cache.put(url, new Response(data, { headers: response.headers }));
+  }
+  return new Blob([data], { type: response.headers.get("Content-Type") || "" });
+}
+
+/**
+ * Returns the function the Pyodide loader uses to look up artifacts. When they are cached or checked against a
+ * manifest they are downloaded by us, which also reports progress, and handed to the loader as object URLs after they
+ * have been checked. Otherwise the loader fetches them itself.
+ */
+export function createArtifactResolver(opts: ArtifactOptions, onProgress: (progress: PyodideLoadingProgress) => void) {
+  return async (url: string) => {
+    if (opts.cacheName === undefined && !opts.manifest) {
+      return url;
+    }
+    const name = getArtifactPath(url, opts);
+    const blob = await fetchArtifact(url, opts, (loadedBytes, totalBytes) =>
+      onProgress({ stage: "downloading", name, loadedBytes, totalBytes })
+    );
+    return URL.createObjectURL(blob);
+  };
+}
+
+/**
+ * Called by the Pyodide loader with the URLs returned by the artifact resolver once the artifacts are loaded.
+ */
+export function releaseArtifactUrl(url: string) {
+  if (url.startsWith("blob:")) {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Collects the artifact options from the plugin options. Only works on the main thread.
+ */
+export async function getArtifactOptions(artifactsUrl: string): Promise<ArtifactOptions> {
+  const pluginOpts = getPluginOpts();
+
+  artifactsUrl = new URL(artifactsUrl, document.baseURI).href;
+  if (!artifactsUrl.endsWith("/")) {
+    artifactsUrl += "/";
+  }
+
+  let manifest = pluginOpts.artifactManifest;
+  if (typeof manifest === "string") {
+    const response = await fetch(new URL(manifest, document.baseURI).href);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch the artifact manifest ${manifest}: ${response.status} ${response.statusText}`);
+    }
+    manifest = (await response.json()) as ArtifactManifest;
+  }
+  // Failing here is clearer than every artifact failing its check.
+  if (manifest && (typeof crypto === "undefined" || !crypto.subtle)) {
+    throw new ArtifactIntegrityError(
+      "Checking Pyodide artifacts against the artifact manifest needs a secure context (https), " +
+        "crypto.subtle is not available."
+    );
+  }
+
+  const cache = pluginOpts.artifactCache;
+  const cacheName = typeof cache === "string" ? cache : cache ? DEFAULT_ARTIFACT_CACHE_NAME : undefined;
+  return { artifactsUrl, manifest, cacheName };
+}
+
+export interface PrewarmArtifactCacheOptions {
+  /**
+   * Defaults to the artifacts URL Pyodide is loaded from.
+   */
+  artifactsUrl?: string;
+  onProgress?: (loaded: number, total: number, path: string) => void;
+}
+
+/**
+ * Downloads the interpreter and the given packages (including their dependencies) into the artifact cache, so
+ * they can be loaded without network access later on. Everything is checked against the manifest if there is one.
+ */
+export async function prewarmArtifactCache(packages: string[] = [], opts: PrewarmArtifactCacheOptions = {}) {
+  const artifactOpts = await getArtifactOptions(opts.artifactsUrl || getDefaultArtifactsUrl());
+  // Pre-warming makes no sense without a cache, even if caching wasn't turned on for loading.
+  if (artifactOpts.cacheName === undefined) {
+    artifactOpts.cacheName = DEFAULT_ARTIFACT_CACHE_NAME;
+  }
+
+  const packagesJsonBlob = await fetchArtifact(`${artifactOpts.artifactsUrl}packages.json`, artifactOpts);
+  const dependencies: Record<string, string[]> = JSON.parse(await packagesJsonBlob.text()).dependencies;
+
+  const toLoad = new Set<string>();
+  const addPackage = (name: string) => {
+    if (toLoad.has(name)) {
+      return;
+    }
+    if (dependencies[name] === undefined) {
+      throw new Error(`Unknown package "${name}", it is not part of the Pyodide distribution.`);
+    }
+    toLoad.add(name);
+    dependencies[name].forEach(addPackage);
+  };
+  packages.forEach(addPackage);
+
+  const paths = [...CORE_ARTIFACTS];
+  toLoad.forEach((name) => paths.push(`${name}.js`, `${name}.data`));
+
+  for (let i = 0; i < paths.length; i++) {
+    await fetchArtifact(`${artifactOpts.artifactsUrl}${paths[i]}`, artifactOpts);
+    opts.onProgress?.(i + 1, paths.length, paths[i]);
+  }
+}
+
+export function getDefaultArtifactsUrl() {
+  return (
+    getPluginOpts().artifactsUrl ||
+    (window as any).pyodideArtifactsUrl ||
+    "https://cdn.jsdelivr.net/pyodide/v0.17.0/full/"
+  );
+}
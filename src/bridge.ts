@@ -0,0 +1,153 @@
+/**
+ * Variables shared between Javascript and Python cells, see `starboard._bridge` for the Python side.
+ * The values live here on the main thread. They are copied (encoded as JSON) whenever they cross over to Python, so
+ * no PyProxies are involved. When Python runs in a worker, the worker keeps a copy of the encoded values so Python
+ * can read them synchronously.
+ */
+
+const sharedVariables = new Map<string, any>();
+// Called with the encoded value whenever Javascript shares a variable, used to keep the worker's copy up to date.
+const exportListeners = new Set<(name: string, encoded: string) => void>();
+
+// Marks values that don't map onto JSON directly.
+const TAG = "$starboard";
+
+const TYPED_ARRAYS: Record<string, any> = {
+  Int8Array,
+  Uint8Array,
+  Uint8ClampedArray,
+  Int16Array,
+  Uint16Array,
+  Int32Array,
+  Uint32Array,
+  BigInt64Array,
+  BigUint64Array,
+  Float32Array,
+  Float64Array,
+};
+
+function bytesToBase64(bytes: Uint8Array) {
+  let binary = "";
+  // Converted in chunks, there is a limit on the number of arguments a function can be called with.
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode.apply(null, bytes.subarray(i, i + 0x8000) as any);
+  }
+  return btoa(binary);
+}
+
+function base64ToBytes(base64: string) {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function encodeValue(value: any): any {
+  if (value === null || value === undefined) {
+    return null;
+  } else if (typeof value === "number") {
+    return Number.isFinite(value)
+      ? value
+      : { [TAG]: "float", value: Number.isNaN(value) ? "nan" : value > 0 ? "inf" : "-inf" };
+  } else if (typeof value === "string" || typeof value === "boolean") {
+    return value;
+  } else if (ArrayBuffer.isView(value) && !(value instanceof DataView)) {
+    const bytes = new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+    return { [TAG]: "typedarray", type: value.constructor.name, data: bytesToBase64(bytes) };
+  } else if (value instanceof ArrayBuffer) {
+    return { [TAG]: "typedarray", type: "Uint8Array", data: bytesToBase64(new Uint8Array(value)) };
+  } else if (Array.isArray(value)) {
+    return value.map(encodeValue);
+  } else if (typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype) {
+    const encoded: Record<string, any> = {};
+    for (const [k, v] of Object.entries(value)) {
+      encoded[k] = encodeValue(v);
+    }
+    return encoded;
+  }
+
+  throw new TypeError(
+    `Only plain data can be shared with Python, got a value of type ${value?.constructor?.name ?? typeof value}. ` +
+      "Supported are null, booleans, numbers, strings, arrays, plain objects and typed arrays."
+  );
+}
+
+function decodeTypedArray(encoded: any): any {
+  const bytes = base64ToBytes(encoded.data);
+  const TypedArray = TYPED_ARRAYS[encoded.type];
+  const array = new TypedArray(bytes.buffer, 0, bytes.byteLength / TypedArray.BYTES_PER_ELEMENT);
+  if (!encoded.shape) {
+    return array;
+  }
+
+  // Multi-dimensional numpy arrays become nested arrays, with views on the data as the innermost arrays.
+  const shape: number[] = encoded.shape;
+  const nest = (offset: number, dim: number): any => {
+    if (dim === shape.length - 1) {
+      return array.subarray(offset, offset + shape[dim]);
+    }
+    const stride = shape.slice(dim + 1).reduce((a, b) => a * b, 1);
+    const result = [];
+    for (let i = 0; i < shape[dim]; i++) {
+      result.push(nest(offset + i * stride, dim + 1));
+    }
+    return result;
+  };
+  return shape.length === 0 ? array[0] : nest(0, 0);
+}
+
+function decodeValue(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(decodeValue);
+  } else if (value !== null && typeof value === "object") {
+    if (value[TAG] === "typedarray") {
+      return decodeTypedArray(value);
+    } else if (value[TAG] === "float") {
+      return ({ nan: NaN, inf: Infinity, "-inf": -Infinity } as Record<string, number>)[value.value];
+    }
+    const decoded: Record<string, any> = {};
+    for (const [k, v] of Object.entries(value)) {
+      decoded[k] = decodeValue(v);
+    }
+    return decoded;
+  }
+  return value;
+}
+
+/**
+ * Makes a copy of the value available to Python cells under the given name, they can get it with
+ * `starboard.import_(name)`.
+ */
+export function exportVariable(name: string, value: any) {
+  const encoded = JSON.stringify(encodeValue(value));
+  sharedVariables.set(name, decodeValue(JSON.parse(encoded)));
+  exportListeners.forEach((listener) => listener(name, encoded));
+}
+
+export function subscribeToVariableExports(listener: (name: string, encoded: string) => void) {
+  exportListeners.add(listener);
+}
+
+/**
+ * Returns a value shared under the given name, by a Javascript cell or by Python with `starboard.export(name, value)`.
+ */
+export function importVariable(name: string): any {
+  return sharedVariables.get(name);
+}
+
+export function getSharedVariableNames() {
+  return Array.from(sharedVariables.keys());
+}
+
+/**
+ * Stores a value that was exported from Python.
+ */
+export function setEncodedVariable(name: string, encoded: string) {
+  sharedVariables.set(name, decodeValue(JSON.parse(encoded)));
+}
+
+export function getEncodedVariable(name: string): string | undefined {
+  return sharedVariables.has(name) ? JSON.stringify(encodeValue(sharedVariables.get(name))) : undefined;
+}
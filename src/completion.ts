@@ -0,0 +1,79 @@
+import { getPyodideLoadingStatus } from "./global";
+import { getPluginOpts } from "./opts";
+import { callStarboardPython } from "./pythonPackage";
+import { requestEditorHelpInWorker } from "./workerClient";
+
+/**
+ * Completion, signature help and hover documentation for Python cells. The default provider asks the running
+ * interpreter (see `starboard._completion`), another provider can be registered with `registerPythonCompletionProvider`.
+ * Offsets are character offsets into the cell's code.
+ */
+
+export interface PythonCompletionItem {
+  label: string;
+  /**
+   * Such as "module", "class", "function", "variable" or "keyword".
+   */
+  type: string;
+}
+
+export interface PythonCompletionResult {
+  /**
+   * The range of the code that the chosen completion replaces.
+   */
+  from: number;
+  to: number;
+  items: PythonCompletionItem[];
+}
+
+export interface PythonDocumentation {
+  /**
+   * The signature of a callable, or the name and type of a variable.
+   */
+  label: string;
+  doc?: string;
+}
+
+/**
+ * The namespace is that of the cell being edited (see `namespaces.ts`), undefined for the shared globals.
+ */
+export interface PythonCompletionProvider {
+  complete(code: string, offset: number, namespace?: string): Promise<PythonCompletionResult | undefined>;
+  /**
+   * The signature of the function being called at the offset.
+   */
+  signature(code: string, offset: number, namespace?: string): Promise<PythonDocumentation | undefined>;
+  hover(code: string, offset: number, namespace?: string): Promise<PythonDocumentation | undefined>;
+}
+
+export type EditorHelpKind = "complete" | "signature" | "hover";
+
+async function askInterpreter(kind: EditorHelpKind, code: string, offset: number, namespace?: string) {
+  // Completion alone is no reason to load Python.
+  if (getPyodideLoadingStatus() !== "ready") {
+    return undefined;
+  }
+  const result = getPluginOpts().runInWorker
+    ? await requestEditorHelpInWorker(kind, code, offset, namespace)
+    : callStarboardPython(window.pyodide, `starboard._completion.${kind}`, code, offset, namespace);
+  return result ?? undefined;
+}
+
+const interpreterCompletionProvider: PythonCompletionProvider = {
+  complete: (code, offset, namespace) => askInterpreter("complete", code, offset, namespace),
+  signature: (code, offset, namespace) => askInterpreter("signature", code, offset, namespace),
+  hover: (code, offset, namespace) => askInterpreter("hover", code, offset, namespace),
+};
+
+let completionProvider: PythonCompletionProvider = interpreterCompletionProvider;
+
+/**
+ * Replaces the provider of completions and documentation for all Python cells.
+ */
+export function registerPythonCompletionProvider(provider: PythonCompletionProvider) {
+  completionProvider = provider;
+}
+
+export function getPythonCompletionProvider() {
+  return completionProvider;
+}
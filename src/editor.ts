@@ -0,0 +1,126 @@
+/**
+ * Helpers for the editor of a cell, `StarboardTextEditor` wraps either a Monaco or a CodeMirror editor instance.
+ */
+
+const decorationsByEditor = new WeakMap<any, string[]>();
+
+function isMonacoEditor(instance: any) {
+  return typeof instance.deltaDecorations === "function";
+}
+
+function isCodeMirrorEditor(instance: any) {
+  return instance.state !== undefined && typeof instance.dispatch === "function";
+}
+
+/**
+ * Marks a (1-based) line in the editor, for instance the line an error was raised from, and scrolls it into view.
+ */
+export function highlightEditorLine(editor: { editorInstance?: any }, line: number) {
+  const instance = editor.editorInstance;
+  if (!instance) {
+    return;
+  }
+
+  if (isMonacoEditor(instance)) {
+    const decorations = instance.deltaDecorations(decorationsByEditor.get(instance) || [], [
+      {
+        range: { startLineNumber: line, startColumn: 1, endLineNumber: line, endColumn: 1 },
+        options: { isWholeLine: true, className: "starboard-python-error-line" },
+      },
+    ]);
+    decorationsByEditor.set(instance, decorations);
+    instance.revealLineInCenterIfOutsideViewport(line);
+  } else if (isCodeMirrorEditor(instance)) {
+    // CodeMirror decorations need an extension registered when the editor is created, we select the line instead.
+    if (line < 1 || line > instance.state.doc.lines) {
+      return;
+    }
+    const docLine = instance.state.doc.line(line);
+    instance.dispatch({ selection: { anchor: docLine.from, head: docLine.to }, scrollIntoView: true });
+  }
+}
+
+export function clearEditorLineHighlight(editor: { editorInstance?: any }) {
+  const instance = editor.editorInstance;
+  if (instance && isMonacoEditor(instance)) {
+    decorationsByEditor.set(instance, instance.deltaDecorations(decorationsByEditor.get(instance) || [], []));
+  }
+}
+
+export function getEditorText(editor: { editorInstance?: any }): string | undefined {
+  const instance = editor.editorInstance;
+  if (instance && isMonacoEditor(instance)) {
+    return instance.getValue();
+  } else if (instance && isCodeMirrorEditor(instance)) {
+    return instance.state.doc.toString();
+  }
+  return undefined;
+}
+
+/**
+ * The offset of the cursor in the editor's text.
+ */
+export function getEditorCursorOffset(editor: { editorInstance?: any }): number | undefined {
+  const instance = editor.editorInstance;
+  if (instance && isMonacoEditor(instance)) {
+    return instance.getModel().getOffsetAt(instance.getPosition());
+  } else if (instance && isCodeMirrorEditor(instance)) {
+    return instance.state.selection.main.head;
+  }
+  return undefined;
+}
+
+/**
+ * The offset in the editor's text at a point on the screen (in client coordinates).
+ */
+export function getEditorOffsetAtPoint(editor: { editorInstance?: any }, x: number, y: number): number | undefined {
+  const instance = editor.editorInstance;
+  if (instance && isMonacoEditor(instance)) {
+    const target = instance.getTargetAtClientPoint(x, y);
+    return target?.position ? instance.getModel().getOffsetAt(target.position) : undefined;
+  } else if (instance && isCodeMirrorEditor(instance)) {
+    return instance.posAtCoords({ x, y }) ?? undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Where the cursor is on the screen (in client coordinates), `bottom` is the bottom of the line it is on.
+ */
+export function getEditorCursorCoords(editor: { editorInstance?: any }): { left: number; bottom: number } | undefined {
+  const instance = editor.editorInstance;
+  if (instance && isMonacoEditor(instance)) {
+    const position = instance.getScrolledVisiblePosition(instance.getPosition());
+    const rect = instance.getDomNode().getBoundingClientRect();
+    return position
+      ? { left: rect.left + position.left, bottom: rect.top + position.top + position.height }
+      : undefined;
+  } else if (instance && isCodeMirrorEditor(instance)) {
+    const coords = instance.coordsAtPos(instance.state.selection.main.head);
+    return coords ? { left: coords.left, bottom: coords.bottom } : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Replaces a range of the editor's text and puts the cursor after the inserted text.
+ */
+export function replaceEditorRange(editor: { editorInstance?: any }, from: number, to: number, text: string) {
+  const instance = editor.editorInstance;
+  if (instance && isMonacoEditor(instance)) {
+    const model = instance.getModel();
+    const start = model.getPositionAt(from);
+    const end = model.getPositionAt(to);
+    const range = {
+      startLineNumber: start.lineNumber,
+      startColumn: start.column,
+      endLineNumber: end.lineNumber,
+      endColumn: end.column,
+    };
+    instance.executeEdits("starboard-python", [{ range, text, forceMoveMarkers: true }]);
+    instance.focus();
+  } else if (instance && isCodeMirrorEditor(instance)) {
+    instance.dispatch({ changes: { from, to, insert: text }, selection: { anchor: from + text.length } });
+    instance.focus();
+  }
+}
@@ -0,0 +1,254 @@
+import { getPythonCompletionProvider, PythonCompletionResult, PythonDocumentation } from "./completion";
+import {
+  getEditorCursorCoords,
+  getEditorCursorOffset,
+  getEditorOffsetAtPoint,
+  getEditorText,
+  replaceEditorRange,
+} from "./editor";
+
+/**
+ * The completion popup and documentation tooltip of the cell editor. These are our own elements rather than
+ * extensions of the editor, so they work the same for every editor backend.
+ * Ctrl+Space (or typing a dot) shows completions, Ctrl+Shift+Space (or typing an opening parenthesis) shows the
+ * signature of the function being called, and resting the mouse on a name shows its documentation.
+ */
+
+// The `StarboardTextEditor` element.
+type CellEditor = HTMLElement & { editorInstance?: any };
+
+const HOVER_DELAY_MS = 500;
+// Typing any of these while the popup is open narrows down the completions, anything else closes the popup.
+const IDENTIFIER_KEY_REGEX = /^\w$/;
+
+interface OpenCompletions {
+  editor: CellEditor;
+  result: PythonCompletionResult;
+  selected: number;
+  element: HTMLElement;
+}
+
+// The namespace of the cell each editor belongs to, names are looked up in its globals.
+const editorNamespaces = new WeakMap<CellEditor, () => string | undefined>();
+
+let openCompletions: OpenCompletions | undefined = undefined;
+let tooltip: HTMLElement | undefined = undefined;
+// Hover tooltips are replaced when the mouse moves on, signature tooltips stay until typing continues.
+let isHoverTooltip = false;
+// Incremented for every request, so answers that arrive after a newer request are dropped.
+let requestCounter = 0;
+
+function closeCompletions() {
+  openCompletions?.element.remove();
+  openCompletions = undefined;
+}
+
+function closeTooltip() {
+  tooltip?.remove();
+  tooltip = undefined;
+}
+
+function placeBelow(element: HTMLElement, left: number, bottom: number) {
+  element.style.left = `${left + window.scrollX}px`;
+  element.style.top = `${bottom + window.scrollY + 2}px`;
+  document.body.appendChild(element);
+}
+
+function renderCompletionItems(open: OpenCompletions) {
+  open.element.textContent = "";
+  open.result.items.forEach((item, i) => {
+    const div = document.createElement("div");
+    div.className = "starboard-python-completion" + (i === open.selected ? " selected" : "");
+    const label = document.createElement("span");
+    label.textContent = item.label;
+    const type = document.createElement("span");
+    type.className = "starboard-python-completion-type";
+    type.textContent = item.type;
+    div.append(label, type);
+    // On mousedown, so the editor doesn't lose focus (which would close the popup).
+    div.addEventListener("mousedown", (e) => {
+      e.preventDefault();
+      open.selected = i;
+      acceptCompletion();
+    });
+    open.element.appendChild(div);
+  });
+  open.element.children[open.selected]?.scrollIntoView({ block: "nearest" });
+}
+
+function acceptCompletion() {
+  if (!openCompletions) {
+    return;
+  }
+  const open = openCompletions;
+  closeCompletions();
+  const item = open.result.items[open.selected];
+  if (item) {
+    replaceEditorRange(open.editor, open.result.from, getEditorCursorOffset(open.editor) ?? open.result.to, item.label);
+  }
+}
+
+async function showCompletions(editor: CellEditor) {
+  const code = getEditorText(editor);
+  const offset = getEditorCursorOffset(editor);
+  if (code === undefined || offset === undefined) {
+    return;
+  }
+
+  const request = ++requestCounter;
+  const result = await getPythonCompletionProvider().complete(code, offset, editorNamespaces.get(editor)?.());
+  if (request !== requestCounter) {
+    return;
+  }
+  const coords = getEditorCursorCoords(editor);
+  if (!result || result.items.length === 0 || !coords) {
+    closeCompletions();
+    return;
+  }
+
+  closeTooltip();
+  if (!openCompletions || openCompletions.editor !== editor) {
+    closeCompletions();
+    const element = document.createElement("div");
+    element.className = "starboard-python-completions";
+    openCompletions = { editor, result, selected: 0, element };
+    placeBelow(element, coords.left, coords.bottom);
+  } else {
+    openCompletions.result = result;
+    openCompletions.selected = 0;
+  }
+  renderCompletionItems(openCompletions);
+}
+
+function showDocumentation(documentation: PythonDocumentation, left: number, bottom: number, isHover: boolean) {
+  closeTooltip();
+  isHoverTooltip = isHover;
+  tooltip = document.createElement("div");
+  tooltip.className = "starboard-python-tooltip";
+  const label = document.createElement("pre");
+  label.className = "starboard-python-tooltip-label";
+  label.textContent = documentation.label;
+  tooltip.appendChild(label);
+  if (documentation.doc) {
+    const doc = document.createElement("pre");
+    doc.className = "starboard-python-tooltip-doc";
+    doc.textContent = documentation.doc;
+    tooltip.appendChild(doc);
+  }
+  placeBelow(tooltip, left, bottom);
+}
+
+async function showSignature(editor: CellEditor) {
+  const code = getEditorText(editor);
+  const offset = getEditorCursorOffset(editor);
+  if (code === undefined || offset === undefined) {
+    return;
+  }
+
+  const request = ++requestCounter;
+  const documentation = await getPythonCompletionProvider().signature(code, offset, editorNamespaces.get(editor)?.());
+  const coords = getEditorCursorCoords(editor);
+  if (request === requestCounter && documentation && coords) {
+    closeCompletions();
+    showDocumentation(documentation, coords.left, coords.bottom, false);
+  }
+}
+
+async function showHover(editor: CellEditor, x: number, y: number) {
+  const code = getEditorText(editor);
+  const offset = getEditorOffsetAtPoint(editor, x, y);
+  if (code === undefined || offset === undefined) {
+    return;
+  }
+
+  const request = ++requestCounter;
+  const documentation = await getPythonCompletionProvider().hover(code, offset, editorNamespaces.get(editor)?.());
+  // Completions and signatures are more important than hover information.
+  if (request === requestCounter && documentation && !openCompletions && (!tooltip || isHoverTooltip)) {
+    showDocumentation(documentation, x, y + 8, true);
+  }
+}
+
+// Help that can't be had isn't shown, the editor works as usual.
+function logEditorHelpError(e: any) {
+  console.error("Could not get completions or documentation from Python:", e);
+}
+
+function onKeyDown(editor: CellEditor, e: KeyboardEvent) {
+  const isOpenHere = openCompletions?.editor === editor;
+  const handled = () => {
+    e.preventDefault();
+    e.stopPropagation();
+  };
+
+  if (isOpenHere && openCompletions) {
+    const itemCount = openCompletions.result.items.length;
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      openCompletions.selected = (openCompletions.selected + (e.key === "ArrowDown" ? 1 : itemCount - 1)) % itemCount;
+      renderCompletionItems(openCompletions);
+      return handled();
+    } else if (e.key === "Enter" || e.key === "Tab") {
+      acceptCompletion();
+      return handled();
+    } else if (e.key === "Escape") {
+      closeCompletions();
+      return handled();
+    }
+  } else if (tooltip && e.key === "Escape") {
+    closeTooltip();
+    return handled();
+  }
+
+  if (e.key === " " && e.ctrlKey) {
+    if (e.shiftKey) {
+      showSignature(editor).catch(logEditorHelpError);
+    } else {
+      showCompletions(editor).catch(logEditorHelpError);
+    }
+    return handled();
+  }
+
+  closeTooltip();
+  // The editor hasn't processed the key yet, so we wait for it to do that before looking at the code.
+  if (e.key === "." && !e.ctrlKey && !e.metaKey && !e.altKey) {
+    setTimeout(() => showCompletions(editor).catch(logEditorHelpError));
+  } else if (e.key === "(" && !e.ctrlKey && !e.metaKey && !e.altKey) {
+    closeCompletions();
+    setTimeout(() => showSignature(editor).catch(logEditorHelpError));
+  } else if (isOpenHere && (IDENTIFIER_KEY_REGEX.test(e.key) || e.key === "Backspace")) {
+    setTimeout(() => showCompletions(editor).catch(logEditorHelpError));
+  } else if (isOpenHere && !["Shift", "Control", "Alt", "Meta"].includes(e.key)) {
+    closeCompletions();
+  }
+}
+
+/**
+ * Adds completions and documentation to the editor of a Python cell, `getNamespace` returns the cell's namespace.
+ */
+export function attachPythonCompletion(editor: CellEditor, getNamespace: () => string | undefined = () => undefined) {
+  editorNamespaces.set(editor, getNamespace);
+  let hoverTimeout: ReturnType<typeof setTimeout> | undefined = undefined;
+  const cancelHover = () => {
+    if (hoverTimeout !== undefined) {
+      clearTimeout(hoverTimeout);
+      hoverTimeout = undefined;
+    }
+  };
+
+  // In the capture phase, the editor would otherwise handle the arrow keys and enter itself.
+  editor.addEventListener("keydown", (e) => onKeyDown(editor, e), true);
+  editor.addEventListener("focusout", () => {
+    if (openCompletions?.editor === editor) {
+      closeCompletions();
+    }
+    closeTooltip();
+  });
+  editor.addEventListener("mousemove", (e) => {
+    cancelHover();
+    hoverTimeout = setTimeout(() => showHover(editor, e.clientX, e.clientY).catch(logEditorHelpError), HOVER_DELAY_MS);
+  });
+  editor.addEventListener("mouseleave", () => {
+    cancelHover();
+    closeTooltip();
+  });
+}
@@ -0,0 +1,62 @@
+import type { Cell } from "starboard-notebook/dist/src/types";
+import { subscribeToPyodideLoadingStatus } from "./global";
+
+/**
+ * Jupyter-like execution counts and timing of Python cells. They are stored in the cell's metadata (under
+ * `execution`), so they are saved with the notebook. Only runs that are done are stored, the cell handler shows a
+ * queued or running one by itself.
+ */
+
+export type PythonCellStatus = "queued" | "running" | "finished" | "errored";
+
+export interface PythonCellExecution {
+  status: PythonCellStatus;
+  /**
+   * The number of cells that started running before this one since the interpreter was started, plus one.
+   * Not set while the cell is queued.
+   */
+  execution_count?: number;
+  /**
+   * ISO 8601 timestamp of when the cell started running.
+   */
+  started_at?: string;
+  /**
+   * Wall-clock time the cell ran for, once it is done.
+   */
+  duration_ms?: number;
+}
+
+// Notebook-wide, starts over when the interpreter is restarted like a Jupyter kernel's counter.
+let executionCount = 0;
+
+export function nextExecutionCount() {
+  return ++executionCount;
+}
+
+export function getCellExecution(cell: Cell): PythonCellExecution | undefined {
+  return cell.metadata.execution;
+}
+
+export function setCellExecution(cell: Cell, execution: PythonCellExecution | undefined) {
+  if (execution) {
+    cell.metadata.execution = execution;
+  } else {
+    delete cell.metadata.execution;
+  }
+}
+
+export function formatDuration(ms: number) {
+  if (ms < 1000) {
+    return `${Math.round(ms)} ms`;
+  } else if (ms < 60000) {
+    return `${(ms / 1000).toFixed(ms < 10000 ? 2 : 1)} s`;
+  }
+  const minutes = Math.floor(ms / 60000);
+  return `${minutes} min ${Math.round((ms % 60000) / 1000)} s`;
+}
+
+subscribeToPyodideLoadingStatus((status) => {
+  if (status === "unstarted") {
+    executionCount = 0;
+  }
+});
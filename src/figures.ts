@@ -0,0 +1,138 @@
+import { withPythonRunLock } from "./lock";
+import { registerMimeRenderer } from "./mime";
+import { getPluginOpts } from "./opts";
+import { callStarboardPython } from "./pythonPackage";
+import { releaseFiguresInWorker, saveFigureInWorker } from "./workerClient";
+
+/**
+ * Matplotlib figures in cell outputs, see `starboard._matplotlib` for the Python side. Each shown figure is wrapped
+ * in an element with its id and buttons to save it. The figures stay alive in Python until the output of their cell
+ * is cleared, which is when they get released.
+ */
+
+export const FIGURE_MIME_TYPE = "application/vnd.starboard.matplotlib-figure+json";
+
+export type FigureFormat = "png" | "svg";
+
+const FIGURE_FORMATS: Record<FigureFormat, string> = { png: "image/png", svg: "image/svg+xml" };
+
+interface FigureSnapshot {
+  format: FigureFormat;
+  blob: Blob;
+}
+
+/**
+ * Wraps the element a figure is drawn into. The snapshot is what gets saved in its format if the figure itself is
+ * gone, such as after a restart.
+ */
+export function createFigureElement(figureId: string, content: HTMLElement, snapshot?: FigureSnapshot) {
+  const figure = document.createElement("div");
+  figure.className = "starboard-python-figure";
+  figure.dataset.figureId = figureId;
+
+  const actions = document.createElement("div");
+  actions.className = "starboard-python-figure-actions";
+  for (const format of Object.keys(FIGURE_FORMATS) as FigureFormat[]) {
+    const button = document.createElement("button");
+    button.className = "btn btn-sm btn-outline-secondary";
+    button.title = `Save the figure as ${format.toUpperCase()}`;
+    button.innerHTML = `<span class="bi bi-download"></span> ${format.toUpperCase()}`;
+    button.addEventListener("click", () =>
+      saveFigure(figureId, format, snapshot?.format === format ? snapshot.blob : undefined).catch((e) =>
+        console.error("Could not save the figure:", e)
+      )
+    );
+    actions.appendChild(button);
+  }
+
+  figure.append(content, actions);
+  return figure;
+}
+
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url));
+}
+
+function base64ToBlob(data: string, type: string) {
+  return new Blob([Uint8Array.from(atob(data), (c) => c.charCodeAt(0))], { type });
+}
+
+/**
+ * Renders the figure in the given format and downloads it.
+ */
+export async function saveFigure(figureId: string, format: FigureFormat, fallback?: Blob) {
+  const data: string | undefined = await withPythonRunLock(
+    async () =>
+      getPluginOpts().runInWorker
+        ? await saveFigureInWorker(figureId, format)
+        : callStarboardPython(window.pyodide, "starboard._matplotlib.save", figureId, format),
+    { label: "Saving figure" }
+  ).catch(() => undefined);
+
+  const blob = data ? base64ToBlob(data, FIGURE_FORMATS[format]) : fallback;
+  if (!blob) {
+    console.warn(`Figure ${figureId} is not available anymore, run its cell again to save it.`);
+    return;
+  }
+  downloadBlob(blob, `figure.${format}`);
+}
+
+/**
+ * The ids of the figures shown in an element, such as the output of a cell.
+ */
+export function getFigureIds(element: HTMLElement) {
+  return Array.from(element.querySelectorAll<HTMLElement>(".starboard-python-figure")).map(
+    (figure) => figure.dataset.figureId!
+  );
+}
+
+export async function releaseFiguresWhileLocked(figureIds: string[]) {
+  if (figureIds.length === 0) {
+    return;
+  }
+
+  try {
+    if (getPluginOpts().runInWorker) {
+      await releaseFiguresInWorker(JSON.stringify(figureIds));
+    } else {
+      callStarboardPython(window.pyodide, "starboard._matplotlib.release", JSON.stringify(figureIds));
+    }
+  } catch (e) {
+    // The interpreter was restarted (or isn't loaded), its figures are gone already.
+  }
+}
+
+/**
+ * Releases the figures shown in the output of a cell, called when the output is cleared.
+ */
+export async function releaseCellFigures(element: HTMLElement) {
+  // The ids are collected right away, the output is about to be cleared.
+  const figureIds = getFigureIds(element);
+  if (figureIds.length === 0) {
+    return;
+  }
+  await withPythonRunLock(() => releaseFiguresWhileLocked(figureIds), { label: "Closing figures" });
+}
+
+registerMimeRenderer({
+  mimeType: FIGURE_MIME_TYPE,
+  priority: 100,
+  render: (data, _runtime, bundle) => {
+    const figureId: string = JSON.parse(data).figure_id;
+    const img = document.createElement("img");
+    let snapshot: FigureSnapshot | undefined = undefined;
+    if (bundle["image/svg+xml"] !== undefined) {
+      img.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(bundle["image/svg+xml"])}`;
+      snapshot = { format: "svg", blob: new Blob([bundle["image/svg+xml"]], { type: FIGURE_FORMATS.svg }) };
+    } else if (bundle["image/png"] !== undefined) {
+      img.src = `data:image/png;base64,${bundle["image/png"]}`;
+      snapshot = { format: "png", blob: base64ToBlob(bundle["image/png"], FIGURE_FORMATS.png) };
+    }
+    return createFigureElement(figureId, img, snapshot);
+  },
+});
@@ -0,0 +1,238 @@
+import {
+  DEFAULT_WORKING_DIRECTORY,
+  deletePath,
+  getPersistentDirectoryPaths,
+  listDirectory,
+  mountPersistentDirectory,
+  PythonFileEntry,
+  readFile,
+  rememberPersistentDirectory,
+  savePersistentDirectories,
+  writeFile,
+} from "./filesystem";
+import { getPyodideLoadingStatus, loadPyodide, subscribeToPyodideLoadingStatus } from "./global";
+import { withPythonRunLock } from "./lock";
+import { getPluginOpts } from "./opts";
+import {
+  deleteFileInWorker,
+  listFilesInWorker,
+  persistDirectoryInWorker,
+  readFileInWorker,
+  savePersistentFilesInWorker,
+  writeFileInWorker,
+} from "./workerClient";
+
+/**
+ * Getting files into and out of the virtual filesystem Python runs on, and keeping directories of it in IndexedDB so
+ * their files survive page reloads (see `filesystem.ts` for the operations themselves). The file browser of the panel
+ * shows one directory, it is refreshed after every cell run.
+ */
+
+let browsedDirectory = DEFAULT_WORKING_DIRECTORY;
+let browsedFiles: PythonFileEntry[] = [];
+const fileListeners = new Set<() => void>();
+
+function notifyFileListeners() {
+  fileListeners.forEach((listener) => listener());
+}
+
+export function subscribeToPythonFiles(listener: () => void) {
+  fileListeners.add(listener);
+}
+
+export function unsubscribeFromPythonFiles(listener: () => void) {
+  fileListeners.delete(listener);
+}
+
+function getFS() {
+  return (window.pyodide as any)._module.FS;
+}
+
+/**
+ * The directory shown in the file browser, and its entries as of the last refresh.
+ */
+export function getBrowsedPythonDirectory() {
+  return browsedDirectory;
+}
+
+export function getBrowsedPythonFiles() {
+  return browsedFiles;
+}
+
+export async function browsePythonDirectory(path: string) {
+  browsedDirectory = path;
+  browsedFiles = [];
+  notifyFileListeners();
+  await refreshPythonFiles();
+}
+
+export async function refreshPythonFiles() {
+  if (getPyodideLoadingStatus() !== "ready") {
+    return;
+  }
+
+  const directory = browsedDirectory;
+  try {
+    const files = await listFiles(directory);
+    // Another directory may have been picked while this one was loading.
+    if (directory === browsedDirectory) {
+      browsedFiles = files;
+      notifyFileListeners();
+    }
+  } catch (e) {
+    // The directory was deleted, such as by the code of a cell.
+    if (directory === browsedDirectory && browsedDirectory !== DEFAULT_WORKING_DIRECTORY) {
+      await browsePythonDirectory(DEFAULT_WORKING_DIRECTORY);
+    }
+  }
+}
+
+function listFiles(path: string) {
+  return getPluginOpts().runInWorker ? listFilesInWorker(path) : listDirectory(getFS(), path);
+}
+
+async function writeFileWhileLocked(path: string, data: Uint8Array) {
+  if (getPluginOpts().runInWorker) {
+    await writeFileInWorker(path, data);
+  } else {
+    writeFile(getFS(), path, data);
+  }
+}
+
+async function savePersistentFilesWhileLocked() {
+  if (getPluginOpts().runInWorker) {
+    await savePersistentFilesInWorker();
+  } else {
+    await savePersistentDirectories(getFS());
+  }
+}
+
+/**
+ * Lists a directory of the virtual filesystem, directories come first.
+ */
+export async function listPythonFiles(path = DEFAULT_WORKING_DIRECTORY): Promise<PythonFileEntry[]> {
+  await loadPyodide();
+  return withPythonRunLock(() => listFiles(path), { label: "Listing files" });
+}
+
+export async function readPythonFile(path: string): Promise<Uint8Array> {
+  await loadPyodide();
+  return withPythonRunLock(() => (getPluginOpts().runInWorker ? readFileInWorker(path) : readFile(getFS(), path)), {
+    label: "Reading file",
+  });
+}
+
+/**
+ * Writes a file, creating the directories it is in. Strings are written as UTF-8.
+ */
+export async function writePythonFile(path: string, data: Uint8Array | string) {
+  const bytes = typeof data === "string" ? new TextEncoder().encode(data) : data;
+  await loadPyodide();
+  await withPythonRunLock(
+    async () => {
+      await writeFileWhileLocked(path, bytes);
+      await savePersistentFilesWhileLocked();
+    },
+    { label: "Writing file" }
+  );
+  await refreshPythonFiles();
+}
+
+/**
+ * Deletes a file, or a directory with everything in it.
+ */
+export async function deletePythonFile(path: string) {
+  await loadPyodide();
+  await withPythonRunLock(
+    async () => {
+      if (getPluginOpts().runInWorker) {
+        await deleteFileInWorker(path);
+      } else {
+        deletePath(getFS(), path);
+      }
+      await savePersistentFilesWhileLocked();
+    },
+    { label: "Deleting file" }
+  );
+  await refreshPythonFiles();
+}
+
+/**
+ * Copies files from the user's disk into a directory of the virtual filesystem, such as files of an
+ * `<input type="file">` or of a drop event. Returns the paths they were written to.
+ */
+export async function uploadPythonFiles(files: ArrayLike<File>, directory = DEFAULT_WORKING_DIRECTORY) {
+  const uploads = await Promise.all(
+    Array.from(files).map(async (file) => ({
+      path: `${directory.replace(/\/$/, "")}/${file.name}`,
+      data: new Uint8Array(await file.arrayBuffer()),
+    }))
+  );
+
+  await loadPyodide();
+  await withPythonRunLock(
+    async () => {
+      for (const upload of uploads) {
+        await writeFileWhileLocked(upload.path, upload.data);
+      }
+      await savePersistentFilesWhileLocked();
+    },
+    { label: "Uploading files" }
+  );
+  await refreshPythonFiles();
+  return uploads.map((upload) => upload.path);
+}
+
+/**
+ * Saves a file of the virtual filesystem to the user's disk.
+ */
+export async function downloadPythonFile(path: string) {
+  const data = await readPythonFile(path);
+  const url = URL.createObjectURL(new Blob([data]));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = path.slice(path.lastIndexOf("/") + 1);
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url));
+}
+
+/**
+ * The directories whose files are kept in IndexedDB, they are restored whenever Python is loaded.
+ */
+export function getPersistentPythonDirectories() {
+  return getPersistentDirectoryPaths();
+}
+
+/**
+ * Keeps the files of a directory in IndexedDB from now on, including the ones that are in it already. This is
+ * remembered, the directory is persisted again on the next page load.
+ */
+export async function persistPythonDirectory(path: string) {
+  await loadPyodide();
+  const directory = await withPythonRunLock(
+    () => (getPluginOpts().runInWorker ? persistDirectoryInWorker(path) : mountPersistentDirectory(getFS(), path)),
+    { label: "Persisting files" }
+  );
+  rememberPersistentDirectory(directory);
+  await refreshPythonFiles();
+}
+
+/**
+ * Saves the changes to the persisted directories, called after every cell run. Files that Python writes in between
+ * are lost when the page is closed.
+ */
+export async function savePersistentPythonFiles() {
+  if (getPyodideLoadingStatus() !== "ready" || getPersistentDirectoryPaths().length === 0) {
+    return;
+  }
+  await withPythonRunLock(savePersistentFilesWhileLocked, { label: "Saving files" });
+}
+
+subscribeToPyodideLoadingStatus((status) => {
+  if (status === "ready") {
+    refreshPythonFiles();
+  } else if (status === "unstarted") {
+    browsedFiles = [];
+    notifyFileListeners();
+  }
+});
@@ -0,0 +1,225 @@
+/**
+ * Operations on the Emscripten filesystem Python runs on, used on the main thread and in the worker alike.
+ * Paths that aren't absolute are relative to Python's working directory, which is `/home/pyodide` unless the code
+ * changes it.
+ */
+
+import { getPluginOpts } from "./opts";
+
+export const DEFAULT_WORKING_DIRECTORY = "/home/pyodide";
+
+export interface PythonFileEntry {
+  name: string;
+  path: string;
+  isDirectory: boolean;
+  size: number;
+  /**
+   * Time of the last modification, in milliseconds since the epoch.
+   */
+  modified: number;
+}
+
+// Pyodide doesn't ship typings for Emscripten's FS object.
+type EmscriptenFS = any;
+
+// Directories of this interpreter that are mounted on IndexedDB, they are saved after every change.
+const persistentDirectories = new Set<string>();
+
+// Local storage is shared by all notebooks of the origin, so are the files in IndexedDB.
+const PERSISTENT_DIRECTORIES_KEY = "starboard-python-persistent-directories";
+
+function getRememberedDirectories(): string[] {
+  try {
+    return JSON.parse(localStorage.getItem(PERSISTENT_DIRECTORIES_KEY) || "[]");
+  } catch (e) {
+    return [];
+  }
+}
+
+/**
+ * The directories to mount on IndexedDB whenever an interpreter is loaded: the one of the plugin options and the
+ * ones that were persisted with `persistPythonDirectory`. Only available on the main thread.
+ */
+export function getPersistentDirectoryPaths(): string[] {
+  const configured = getPluginOpts().persistentDirectory;
+  const remembered = getRememberedDirectories();
+  return configured && !remembered.includes(configured) ? [configured].concat(remembered) : remembered;
+}
+
+export function rememberPersistentDirectory(path: string) {
+  const directories = getRememberedDirectories();
+  if (!directories.includes(path)) {
+    localStorage.setItem(PERSISTENT_DIRECTORIES_KEY, JSON.stringify(directories.concat(path)));
+  }
+}
+
+export function resolvePath(FS: EmscriptenFS, path: string) {
+  const absolute = path.startsWith("/") ? path : `${FS.cwd()}/${path}`;
+  const parts: string[] = [];
+  for (const part of absolute.split("/")) {
+    if (part === "..") {
+      parts.pop();
+    } else if (part !== "" && part !== ".") {
+      parts.push(part);
+    }
+  }
+  return "/" + parts.join("/");
+}
+
+function joinPath(directory: string, name: string) {
+  return directory === "/" ? `/${name}` : `${directory}/${name}`;
+}
+
+function getParentDirectory(path: string) {
+  return path.slice(0, path.lastIndexOf("/")) || "/";
+}
+
+// Emscripten's errors only carry an errno, this says which file and operation it was about.
+function wrapError<T>(description: string, fn: () => T): T {
+  try {
+    return fn();
+  } catch (e) {
+    throw new Error(`Could not ${description}${e.errno !== undefined ? ` (errno ${e.errno})` : ""}`);
+  }
+}
+
+/**
+ * The entries of a directory, directories first and then by name.
+ */
+export function listDirectory(FS: EmscriptenFS, path: string): PythonFileEntry[] {
+  const directory = resolvePath(FS, path);
+  const names: string[] = wrapError(`list ${directory}`, () => FS.readdir(directory));
+  const entries: PythonFileEntry[] = [];
+  for (const name of names) {
+    if (name === "." || name === "..") {
+      continue;
+    }
+    const entryPath = joinPath(directory, name);
+    try {
+      const stat = FS.stat(entryPath);
+      entries.push({
+        name,
+        path: entryPath,
+        isDirectory: FS.isDir(stat.mode),
+        size: stat.size,
+        modified: stat.mtime.getTime(),
+      });
+    } catch (e) {
+      // Such as a symlink to a file that doesn't exist.
+    }
+  }
+  return entries.sort((a, b) => Number(b.isDirectory) - Number(a.isDirectory) || a.name.localeCompare(b.name));
+}
+
+export function readFile(FS: EmscriptenFS, path: string): Uint8Array {
+  const resolved = resolvePath(FS, path);
+  return wrapError(`read ${resolved}`, () => FS.readFile(resolved));
+}
+
+/**
+ * Creates the parent directories of the file if they don't exist, an existing file is overwritten.
+ */
+export function writeFile(FS: EmscriptenFS, path: string, data: Uint8Array) {
+  const resolved = resolvePath(FS, path);
+  wrapError(`write ${resolved}`, () => {
+    FS.mkdirTree(getParentDirectory(resolved));
+    FS.writeFile(resolved, data);
+  });
+}
+
+export function makeDirectory(FS: EmscriptenFS, path: string) {
+  const resolved = resolvePath(FS, path);
+  wrapError(`create ${resolved}`, () => FS.mkdirTree(resolved));
+}
+
+/**
+ * Deletes a file, or a directory with everything in it.
+ */
+export function deletePath(FS: EmscriptenFS, path: string) {
+  const resolved = resolvePath(FS, path);
+  wrapError(`delete ${resolved}`, () => {
+    if (!FS.isDir(FS.stat(resolved).mode)) {
+      FS.unlink(resolved);
+      return;
+    }
+    for (const entry of listDirectory(FS, resolved)) {
+      deletePath(FS, entry.path);
+    }
+    FS.rmdir(resolved);
+  });
+}
+
+function collectFiles(FS: EmscriptenFS, directory: string, files: Map<string, Uint8Array>) {
+  for (const entry of listDirectory(FS, directory)) {
+    if (entry.isDirectory) {
+      collectFiles(FS, entry.path, files);
+    } else {
+      files.set(entry.path, FS.readFile(entry.path));
+    }
+  }
+  return files;
+}
+
+function syncFilesystem(FS: EmscriptenFS, populate: boolean) {
+  return new Promise<void>((resolve, reject) =>
+    FS.syncfs(populate, (error: any) =>
+      error ? reject(new Error(`Could not ${populate ? "load" : "save"} the persisted files`)) : resolve()
+    )
+  );
+}
+
+/**
+ * Mounts the directory on IndexedDB and loads the files that were saved in it. Files that are in the directory
+ * already are kept, they replace saved files with the same name.
+ */
+export async function mountPersistentDirectory(FS: EmscriptenFS, path: string) {
+  const directory = resolvePath(FS, path);
+  if (persistentDirectories.has(directory)) {
+    return directory;
+  }
+  if (!FS.filesystems.IDBFS) {
+    throw new Error("This build of Pyodide doesn't support persisting files (IDBFS is missing)");
+  }
+
+  makeDirectory(FS, directory);
+  // Mounting hides what is in the directory, so it is put back afterwards.
+  const existingFiles = collectFiles(FS, directory, new Map());
+  wrapError(`mount ${directory}`, () => FS.mount(FS.filesystems.IDBFS, {}, directory));
+  persistentDirectories.add(directory);
+  await syncFilesystem(FS, true);
+
+  existingFiles.forEach((data, filePath) => writeFile(FS, filePath, data));
+  if (existingFiles.size > 0) {
+    await syncFilesystem(FS, false);
+  }
+  return directory;
+}
+
+/**
+ * Mounts the directories while an interpreter is loaded, one that fails to mount doesn't keep the others from it.
+ */
+export async function mountPersistentDirectories(FS: EmscriptenFS, paths: string[]) {
+  for (const path of paths) {
+    try {
+      await mountPersistentDirectory(FS, path);
+    } catch (e) {
+      console.error(`Could not persist ${path}:`, e);
+    }
+  }
+}
+
+/**
+ * Saves the persistent directories to IndexedDB, nothing happens if there are none.
+ */
+export async function savePersistentDirectories(FS: EmscriptenFS) {
+  if (persistentDirectories.size > 0) {
+    await syncFilesystem(FS, false);
+  }
+}
+
+/**
+ * Forgets the mounted directories, called when the interpreter they belong to is thrown away.
+ */
+export function clearPersistentDirectories() {
+  persistentDirectories.clear();
+}
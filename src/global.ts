@@ -2,20 +2,51 @@
 import css from "./pyodide-styles.css";
 
 import "./pyodide";
+import { getEncodedVariable, setEncodedVariable } from "./bridge";
+import { createArtifactResolver, getArtifactOptions, getDefaultArtifactsUrl, releaseArtifactUrl } from "./artifacts";
 import { getPluginOpts } from "./opts";
+import { emitPyodideLoadingProgress } from "./progress";
+import { loadPyodideInWorker, resetGlobalsInWorker, terminateWorker } from "./workerClient";
+import { setupMainThreadInterrupts } from "./interrupt";
+import { callStarboardPython, installStarboardPythonPackage } from "./pythonPackage";
+import {
+  appendToCellOutput,
+  clearCellOutput,
+  displayInCellOutput,
+  PythonCellOutput,
+  writeToCellOutput,
+} from "./output";
+import { createFigureElement } from "./figures";
+import { clearPersistentDirectories, getPersistentDirectoryPaths, mountPersistentDirectories } from "./filesystem";
+import { clearWidgetModels, receiveWidgetMessage } from "./widgets";
+
+export type PyodideLoadingStatus = "unstarted" | "loading" | "ready" | "error";
 
 let setupStatus: "unstarted" | "started" | "completed" = "unstarted";
-let loadingStatus: "unstarted" | "loading" | "ready" = "unstarted";
+let loadingStatus: PyodideLoadingStatus = "unstarted";
 let pyodideLoadSingleton: Promise<void> | undefined = undefined;
+// Why the last load failed, while the status is "error".
+let loadingError: Error | undefined = undefined;
+const loadingStatusListeners = new Set<(status: PyodideLoadingStatus) => void>();
+
+// State of the interpreter right after it was loaded, used to reset the globals without a full restart.
+let initialPythonState: any = undefined;
 
 // A global value that is the current HTML element to attach matplotlib figures to..
 // perhaps this can be done in a cleaner way.
 let CURRENT_HTML_OUTPUT_ELEMENT: HTMLElement | undefined = undefined;
 
+// The output of the cell that is currently running, `display()` calls from Python end up here.
+let CURRENT_CELL_OUTPUT: PythonCellOutput | undefined = undefined;
+
 export function setGlobalPythonOutputElement(el: HTMLElement | undefined) {
   CURRENT_HTML_OUTPUT_ELEMENT = el;
 }
 
+export function setGlobalPythonCellOutput(output: PythonCellOutput | undefined) {
+  CURRENT_CELL_OUTPUT = output;
+}
+
 /**
  * Initial setup for Python support, this includes only the synchronous parts (such as adding a stylesheet used for the output).
  * @returns
@@ -50,36 +81,161 @@ export function setupPythonSupport() {
   setupStatus = "completed";
 }
 
+function setLoadingStatus(status: PyodideLoadingStatus) {
+  loadingStatus = status;
+  loadingStatusListeners.forEach((listener) => listener(status));
+}
+
+/**
+ * Loads the interpreter once, later calls return the same promise. If loading fails the status becomes "error" and
+ * the next call tries again with a fresh interpreter.
+ */
 export async function loadPyodide(artifactsUrl?: string) {
   if (pyodideLoadSingleton) return pyodideLoadSingleton;
 
-  loadingStatus = "loading";
-  const artifactsURL =
-    artifactsUrl ||
-    getPluginOpts().artifactsUrl ||
-    (window as any).pyodideArtifactsUrl ||
-    "https://cdn.jsdelivr.net/pyodide/v0.17.0/full/";
-  pyodideLoadSingleton = (window as any).loadPyodide({ indexURL: artifactsURL }) as Promise<void>;
-  await pyodideLoadSingleton;
-  loadingStatus = "ready";
+  setLoadingStatus("loading");
+  loadingError = undefined;
+  const loading = bootPyodide(artifactsUrl || getDefaultArtifactsUrl());
+  pyodideLoadSingleton = loading;
+  try {
+    await loading;
+  } catch (e) {
+    // Unless the interpreter was unloaded (by a restart) in the meantime.
+    if (pyodideLoadSingleton === loading) {
+      discardInterpreter();
+      loadingError = e;
+      setLoadingStatus("error");
+    }
+    throw e;
+  }
+  setLoadingStatus("ready");
+}
+
+async function bootPyodide(artifactsURL: string) {
+  if (getPluginOpts().runInWorker) {
+    // Output of the worker is sent back per run, so the helpers below are not needed.
+    await loadPyodideInWorker(await getArtifactOptions(artifactsURL));
+    return;
+  }
+
+  const artifactOpts = await getArtifactOptions(artifactsURL);
+  await (window as any).loadPyodide({
+    indexURL: artifactOpts.artifactsUrl,
+    resolveArtifactUrl: createArtifactResolver(artifactOpts, emitPyodideLoadingProgress),
+    releaseArtifactUrl,
+    onProgress: emitPyodideLoadingProgress,
+  });
+  setupMainThreadInterrupts(window.pyodide);
 
   // TODO: perhaps we can do this in a cleaner way by passing an output element to runPython or something.
+  // Figures go to the output of the cell that shows them, see `starboard._matplotlib`.
   (window.pyodide as any).matplotlibHelpers = {
-    createElement: (tagName: string) => {
+    createElement: (tagName: string, outputId: number | undefined, figureId: string) => {
       const elem = document.createElement(tagName);
-      if (!CURRENT_HTML_OUTPUT_ELEMENT) {
-        console.log("HTML output from pyodide but nowhere to put it, will append to body instead.");
-        document.querySelector("body")!.appendChild(elem);
+      const figure = createFigureElement(figureId, elem);
+      if (outputId !== undefined && appendToCellOutput(outputId, figure)) {
+        return elem;
+      }
+      if (CURRENT_CELL_OUTPUT) {
+        CURRENT_CELL_OUTPUT.appendElement(figure);
+      } else if (CURRENT_HTML_OUTPUT_ELEMENT) {
+        CURRENT_HTML_OUTPUT_ELEMENT.appendChild(figure);
       } else {
-        CURRENT_HTML_OUTPUT_ELEMENT.appendChild(elem);
+        console.log("Matplotlib figure from pyodide but its cell output is gone, it will not be shown.");
       }
       return elem;
     },
+    display: (outputId: number, bundleJson: string) => displayInCellOutput(outputId, JSON.parse(bundleJson)),
+  };
+
+  // Like streams, `display()` goes to the output of the cell the calling code belongs to (see `starboard._stream`).
+  (window.pyodide as any).displayHelpers = {
+    display: (outputId: number | undefined, bundleJson: string) => {
+      if (outputId === undefined) {
+        console.log("display() called from pyodide but no cell is running, the output will be dropped.");
+        return;
+      }
+      displayInCellOutput(outputId, JSON.parse(bundleJson));
+    },
+    clearOutput: (outputId: number | undefined, wait: boolean) => {
+      if (outputId !== undefined) {
+        clearCellOutput(outputId, wait);
+      }
+    },
+  };
+
+  (window.pyodide as any).streamHelpers = {
+    write: writeToCellOutput,
+  };
+
+  (window.pyodide as any).bridgeHelpers = {
+    get: getEncodedVariable,
+    set: setEncodedVariable,
   };
 
-  return pyodideLoadSingleton;
+  (window.pyodide as any).widgetHelpers = {
+    send: receiveWidgetMessage,
+  };
+
+  installStarboardPythonPackage(window.pyodide);
+  await mountPersistentDirectories(window.pyodide._module.FS, getPersistentDirectoryPaths());
+  initialPythonState = window.pyodide._module.saveState();
 }
 
 export function getPyodideLoadingStatus() {
   return loadingStatus;
 }
+
+/**
+ * Why loading the interpreter failed, if the loading status is "error".
+ */
+export function getPyodideLoadingError() {
+  return loadingStatus === "error" ? loadingError : undefined;
+}
+
+export function subscribeToPyodideLoadingStatus(listener: (status: PyodideLoadingStatus) => void) {
+  loadingStatusListeners.add(listener);
+}
+
+export function unsubscribeFromPyodideLoadingStatus(listener: (status: PyodideLoadingStatus) => void) {
+  loadingStatusListeners.delete(listener);
+}
+
+/**
+ * Throws away the current interpreter, the next call to `loadPyodide` boots a fresh one.
+ * On the main thread the old interpreter can't really be destroyed, we drop all references to it so it can be
+ * garbage collected.
+ */
+export function unloadPyodide() {
+  discardInterpreter();
+  setLoadingStatus("unstarted");
+}
+
+function discardInterpreter() {
+  if (getPluginOpts().runInWorker) {
+    terminateWorker();
+  } else {
+    (globalThis as any).__pyodideLoading = false;
+    window.pyodide = {} as any;
+  }
+  pyodideLoadSingleton = undefined;
+  initialPythonState = undefined;
+  clearPersistentDirectories();
+  clearWidgetModels();
+}
+
+/**
+ * Restores the Python globals to the state right after Pyodide was loaded, imported modules stay loaded.
+ */
+export async function resetPythonGlobals() {
+  if (loadingStatus !== "ready") {
+    return;
+  }
+
+  if (getPluginOpts().runInWorker) {
+    await resetGlobalsInWorker();
+  } else {
+    window.pyodide._module.restoreState(initialPythonState);
+    callStarboardPython(window.pyodide, "starboard._namespaces.clear");
+  }
+}
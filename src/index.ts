@@ -10,13 +10,136 @@ import { Runtime, ControlButton } from "starboard-notebook/dist/src/types";
 
 import { Pyodide as PyodideType } from "./typings";
 
-import { getPyodideLoadingStatus, loadPyodide, setupPythonSupport, setGlobalPythonOutputElement } from "./global.js";
+import {
+  getPyodideLoadingError,
+  getPyodideLoadingStatus,
+  loadPyodide,
+  setupPythonSupport,
+  setGlobalPythonOutputElement,
+} from "./global.js";
 import { runStarboardPython } from "./run.js";
-import { isPyProxy } from "./util";
-import { setPluginOpts, StarboardPythonPluginOpts } from "./opts";
+import { isPyProxy, PYTHON_CELL_TYPES } from "./util";
+import { getPluginOpts, setPluginOpts, StarboardPythonPluginOpts } from "./opts";
+import { interruptPython } from "./interrupt";
+import { restartPython } from "./restart";
+import { registerMimeRenderer } from "./mime";
+import { installPackages } from "./packages";
+import { prewarmArtifactCache } from "./artifacts";
+import { exportVariable, importVariable } from "./bridge";
+import { destroyCellProxies, keepPyProxyAlive } from "./proxies";
+import { releaseCellFigures } from "./figures";
+import {
+  deletePythonFile,
+  downloadPythonFile,
+  getPersistentPythonDirectories,
+  listPythonFiles,
+  persistPythonDirectory,
+  readPythonFile,
+  uploadPythonFiles,
+  writePythonFile,
+} from "./files";
+import { deletePythonNamespace, getCellNamespace, listPythonNamespaces, setCellNamespace } from "./namespaces";
+import { getCellSavedOutputs, renderSavedOutputs, setCellSavedOutputs } from "./savedOutputs";
+import { ipynbToNotebookContent, notebookContentToIpynb } from "./ipynb";
+import { definePythonModule, getCellModuleName, setCellModuleName } from "./modules";
+import {
+  formatPyodideLoadingProgress,
+  PyodideLoadingProgress,
+  subscribeToPyodideLoadingProgress,
+  unsubscribeFromPyodideLoadingProgress,
+} from "./progress";
+import { clearEditorLineHighlight, highlightEditorLine } from "./editor";
+import { attachPythonCompletion } from "./editorCompletion";
+import {
+  cancelQueuedPythonRun,
+  getPythonRunQueue,
+  PythonRunCancelledError,
+  subscribeToPythonRunQueue,
+  unsubscribeFromPythonRunQueue,
+} from "./lock";
+import {
+  formatDuration,
+  getCellExecution,
+  nextExecutionCount,
+  PythonCellExecution,
+  PythonCellStatus,
+  setCellExecution,
+} from "./execution";
+import { registerPythonCompletionProvider } from "./completion";
+import { registerCellMagic, registerLineMagic } from "./magics";
+import {
+  getDependentPythonCells,
+  getPythonReactiveMode,
+  getStalePythonCellNames,
+  handlePythonCellRunEnd,
+  setPythonReactiveMode,
+  subscribeToPythonReactivity,
+  unsubscribeFromPythonReactivity,
+} from "./reactive";
 
-export { getPyodideLoadingStatus, setupPythonSupport, loadPyodide, setGlobalPythonOutputElement };
+export {
+  getPyodideLoadingError,
+  getPyodideLoadingStatus,
+  setupPythonSupport,
+  loadPyodide,
+  setGlobalPythonOutputElement,
+};
 export { runStarboardPython } from "./run.js";
+export { interruptPython } from "./interrupt";
+export { restartPython } from "./restart";
+export { registerMimeRenderer } from "./mime";
+export type { MimeBundle, MimeRenderer } from "./mime";
+export { installPackages } from "./packages";
+export type { InstallPackagesOptions, PackageInstallProgress } from "./packages";
+export { prewarmArtifactCache, ArtifactIntegrityError } from "./artifacts";
+export type { ArtifactManifest, PrewarmArtifactCacheOptions } from "./artifacts";
+export { exportVariable, importVariable } from "./bridge";
+export { keepPyProxyAlive } from "./proxies";
+export { subscribeToPyodideLoadingProgress, unsubscribeFromPyodideLoadingProgress } from "./progress";
+export type { PyodideLoadingProgress, PyodideLoadingStage } from "./progress";
+export type { PythonCellExecution, PythonCellStatus } from "./execution";
+export {
+  cancelQueuedPythonRun,
+  getPythonRunQueue,
+  PythonRunCancelledError,
+  subscribeToPythonRunQueue,
+  unsubscribeFromPythonRunQueue,
+} from "./lock";
+export type { PythonRunQueueEntry, PythonRunState } from "./lock";
+export { registerCellMagic, registerLineMagic } from "./magics";
+export type { CellMagic, CellMagicContext, CellMagicOptions, CellMagicResult, LineMagic } from "./magics";
+export { registerPythonCompletionProvider } from "./completion";
+export {
+  getDependentPythonCells,
+  getPythonReactiveMode,
+  setPythonReactiveMode,
+  subscribeToPythonReactivity,
+  unsubscribeFromPythonReactivity,
+} from "./reactive";
+export type { DependentPythonCell, PythonCellDependencies, PythonReactiveMode } from "./reactive";
+export {
+  deletePythonFile,
+  downloadPythonFile,
+  getPersistentPythonDirectories,
+  listPythonFiles,
+  persistPythonDirectory,
+  readPythonFile,
+  uploadPythonFiles,
+  writePythonFile,
+} from "./files";
+export type { PythonFileEntry } from "./filesystem";
+export { deletePythonNamespace, getCellNamespace, listPythonNamespaces, setCellNamespace } from "./namespaces";
+export { getCellSavedOutputs, setCellSavedOutputs } from "./savedOutputs";
+export type { SavedPythonOutput } from "./savedOutputs";
+export { ipynbToNotebookContent, notebookContentToIpynb } from "./ipynb";
+export type { JupyterCell, JupyterNotebook, JupyterOutput } from "./ipynb";
+export { definePythonModule, getCellModuleName, setCellModuleName } from "./modules";
+export type {
+  PythonCompletionItem,
+  PythonCompletionProvider,
+  PythonCompletionResult,
+  PythonDocumentation,
+} from "./completion";
 
 declare global {
   interface Window {
@@ -37,7 +160,7 @@ export function registerPython(runtime: Runtime) {
 
   const PYTHON_CELL_TYPE_DEFINITION: CellTypeDefinition = {
     name: "Python",
-    cellType: ["python", "python3", "ipython3", "pypy", "py"],
+    cellType: PYTHON_CELL_TYPES,
     createHandler: (cell: Cell, runtime: Runtime) => new PythonCellHandler(cell, runtime),
   };
 
@@ -46,8 +169,13 @@ export function registerPython(runtime: Runtime) {
     private editor: any;
 
     private lastRunId = 0;
+    private runAbortControllers = new Set<AbortController>();
     private isCurrentlyRunning: boolean = false;
-    private isCurrentlyLoadingPyodide: boolean = false;
+    // Position in the run queue while the cell waits for other Python code to finish, 1 means it's next.
+    private queuePosition?: number;
+    private loadingProgress?: PyodideLoadingProgress;
+    // The execution of the run that is queued or running, it isn't stored in the metadata until the run is done.
+    private currentExecution?: PythonCellExecution;
 
     cell: Cell;
     runtime: Runtime;
@@ -58,8 +186,13 @@ export function registerPython(runtime: Runtime) {
     }
 
     private getControls(): litImport.TemplateResult | string {
-      const icon = this.isCurrentlyRunning ? "bi bi-hourglass" : "bi bi-play-circle";
-      const tooltip = this.isCurrentlyRunning ? "Cell is running" : "Run Cell";
+      const isQueued = this.isCurrentlyRunning && this.queuePosition !== undefined;
+      const icon = isQueued ? "bi bi-clock" : this.isCurrentlyRunning ? "bi bi-hourglass" : "bi bi-play-circle";
+      const tooltip = isQueued
+        ? `Cell is queued (position ${this.queuePosition})`
+        : this.isCurrentlyRunning
+        ? "Cell is running"
+        : "Run Cell";
       const runButton: ControlButton = {
         icon,
         tooltip,
@@ -68,32 +201,146 @@ export function registerPython(runtime: Runtime) {
       };
       let buttons = [runButton];
 
-      if (this.isCurrentlyLoadingPyodide) {
+      if (isQueued) {
+        buttons = [
+          {
+            icon: "bi bi-x-circle",
+            tooltip: "Cancel, the cell hasn't started running yet",
+            callback: () => this.stop(),
+          },
+          ...buttons,
+        ];
+      } else if (this.isCurrentlyRunning) {
         buttons = [
           {
-            icon: "bi bi-cloud-arrow-down",
-            tooltip: "Downloading and initializing Pyodide",
-            callback: () => {
-              alert(
-                "Loading Python runtime. It's 5 to 15 MB in size, so it may take a while. It will be cached for next time."
-              );
-            },
+            icon: "bi bi-stop-circle",
+            tooltip: "Stop Cell (raises KeyboardInterrupt)",
+            callback: () => this.stop(),
           },
           ...buttons,
         ];
       }
 
-      return cellControlsTemplate({ buttons });
+      const html = lit.html;
+      const queueInfo = isQueued
+        ? html`<span class="starboard-python-queue-position">queued (position ${this.queuePosition})</span>`
+        : "";
+      const staleNames = getStalePythonCellNames(this.cell.id);
+      const staleInfo = staleNames
+        ? html`<span
+            class="starboard-python-stale"
+            title="Uses ${staleNames.join(", ")}, which changed after this cell ran"
+            >stale</span
+          >`
+        : "";
+      const namespace = getCellNamespace(this.cell);
+      const namespaceInfo = namespace
+        ? html`<span class="starboard-python-namespace" title="Runs in the Python namespace ${namespace}"
+            >${namespace}</span
+          >`
+        : "";
+      const moduleName = getCellModuleName(this.cell);
+      const moduleInfo = moduleName
+        ? html`<span class="starboard-python-module" title="Module cell, other cells can import ${moduleName}"
+            >${moduleName.split(".").join("/")}.py</span
+          >`
+        : "";
+      const controls = html`${queueInfo} ${staleInfo} ${namespaceInfo} ${moduleInfo} ${this.getExecutionInfo()}
+      ${cellControlsTemplate({ buttons })}`;
+      const progress = this.loadingProgress;
+      if (!progress) {
+        return controls;
+      }
+
+      const progressBar =
+        progress.stage === "downloading" && progress.totalBytes !== undefined
+          ? html`<progress max=${progress.totalBytes} value=${progress.loadedBytes ?? 0}></progress>`
+          : html`<progress></progress>`;
+      return html`<div class="starboard-python-loading-progress">
+          <span class="bi bi-cloud-arrow-down"></span>
+          <span>${formatPyodideLoadingProgress(progress)}</span>
+          ${progressBar}
+        </div>
+        ${controls}`;
+    }
+
+    /**
+     * The execution count and duration of the last run, like the `[3]` prompt of Jupyter.
+     */
+    private getExecutionInfo() {
+      const execution = this.currentExecution ?? getCellExecution(this.cell);
+      if (!execution) {
+        return "";
+      }
+
+      const html = lit.html;
+      const count =
+        execution.status === "queued" || execution.status === "running" ? "*" : execution.execution_count ?? " ";
+      const details: string[] = [execution.status];
+      if (execution.duration_ms !== undefined) {
+        details.push(`took ${formatDuration(execution.duration_ms)}`);
+      }
+      if (execution.started_at !== undefined) {
+        details.push(`started ${new Date(execution.started_at).toLocaleString()}`);
+      }
+      return html`<span
+        class="starboard-python-execution starboard-python-execution-${execution.status}"
+        title=${details.join(", ")}
+        >[${count}]${execution.duration_ms !== undefined ? ` ${formatDuration(execution.duration_ms)}` : ""}</span
+      >`;
+    }
+
+    /**
+     * A queued or running execution is only shown, a notebook saved in the meantime would show it as running forever.
+     */
+    private setExecution(execution: PythonCellExecution | undefined) {
+      if (execution?.status === "queued" || execution?.status === "running") {
+        this.currentExecution = execution;
+      } else {
+        this.currentExecution = undefined;
+        setCellExecution(this.cell, execution);
+      }
+      lit.render(this.getControls(), this.elements.topControlsElement);
     }
 
+    private onRunQueueChange = () => {
+      const queue = getPythonRunQueue();
+      const pendingCellIds = queue.filter((entry) => entry.state === "pending").map((entry) => entry.cellId);
+      const isRunning = queue.some((entry) => entry.state === "running" && entry.cellId === this.cell.id);
+      const index = pendingCellIds.lastIndexOf(this.cell.id);
+      const position = isRunning || index === -1 ? undefined : index + 1;
+      if (position !== this.queuePosition) {
+        this.queuePosition = position;
+        lit.render(this.getControls(), this.elements.topControlsElement);
+      }
+    };
+
+    private onReactivityChange = () => {
+      lit.render(this.getControls(), this.elements.topControlsElement);
+    };
+
+    private onLoadingProgress = (progress: PyodideLoadingProgress) => {
+      this.loadingProgress = progress.stage === "ready" ? undefined : progress;
+      lit.render(this.getControls(), this.elements.topControlsElement);
+    };
+
     attach(params: CellHandlerAttachParameters): void {
       this.elements = params.elements;
 
       const topElement = this.elements.topElement;
       lit.render(this.getControls(), this.elements.topControlsElement);
+      subscribeToPythonReactivity(this.onReactivityChange);
 
       this.editor = new StarboardTextEditor(this.cell, this.runtime, { language: "python" });
       topElement.appendChild(this.editor);
+      attachPythonCompletion(this.editor, () => getCellNamespace(this.cell));
+
+      const savedOutputs = getCellSavedOutputs(this.cell);
+      if (savedOutputs) {
+        renderSavedOutputs(this.runtime, savedOutputs, this.elements.bottomElement).catch((e) =>
+          console.error("Could not show the saved output of the cell:", e)
+        );
+      }
     }
 
     async run() {
@@ -103,40 +350,122 @@ export function registerPython(runtime: Runtime) {
       const currentRunId = this.lastRunId;
       this.isCurrentlyRunning = true;
 
-      if (getPyodideLoadingStatus() !== "ready") {
-        this.isCurrentlyLoadingPyodide = true;
-      }
+      // Loading happens before and during the run, when the cell imports packages.
+      subscribeToPyodideLoadingProgress(this.onLoadingProgress);
+      subscribeToPythonRunQueue(this.onRunQueueChange);
       lit.render(this.getControls(), this.elements.topControlsElement);
 
+      clearEditorLineHighlight(this.editor);
+      const abortController = new AbortController();
+      this.runAbortControllers.add(abortController);
+
+      // Only the latest run of the cell is recorded, earlier runs that are still queued or running are ignored.
+      // A run that is cancelled before it starts leaves no trace.
+      let execution: PythonCellExecution = { status: "queued" };
+      let startTime: number | undefined = undefined;
+      this.setExecution(execution);
+      const finishExecution = (status: PythonCellStatus) => {
+        if (this.lastRunId === currentRunId) {
+          const duration_ms = startTime !== undefined ? Math.round(performance.now() - startTime) : undefined;
+          this.setExecution({ ...execution, status, duration_ms });
+          this.runtime.controls.contentChanged();
+        }
+      };
+
       try {
-        const val = await runStarboardPython(this.runtime, codeToRun, this.elements.bottomElement);
+        const val = await runStarboardPython(this.runtime, codeToRun, this.elements.bottomElement, {
+          signal: abortController.signal,
+          onErrorLine: (line) => highlightEditorLine(this.editor, line),
+          cellId: this.cell.id,
+          namespace: getCellNamespace(this.cell),
+          module: getCellModuleName(this.cell),
+          onStart: () => {
+            startTime = performance.now();
+            execution = {
+              status: "running",
+              execution_count: nextExecutionCount(),
+              started_at: new Date().toISOString(),
+            };
+            if (this.lastRunId === currentRunId) {
+              this.setExecution(execution);
+              setCellSavedOutputs(this.cell, undefined);
+            }
+          },
+          onOutputChange: (outputs) => {
+            if (this.lastRunId === currentRunId && getPluginOpts().saveOutputs !== false) {
+              setCellSavedOutputs(this.cell, outputs);
+              this.runtime.controls.contentChanged();
+            }
+          },
+        });
+        finishExecution("finished");
+        handlePythonCellRunEnd(this.runtime, this.cell, true).catch((e) =>
+          console.error("Error finding the cells that depend on the cell:", e)
+        );
         // TODO dedupe
-        this.isCurrentlyLoadingPyodide = false;
+        this.runAbortControllers.delete(abortController);
+        unsubscribeFromPyodideLoadingProgress(this.onLoadingProgress);
+        this.loadingProgress = undefined;
         if (this.lastRunId === currentRunId) {
           this.isCurrentlyRunning = false;
+          unsubscribeFromPythonRunQueue(this.onRunQueueChange);
           lit.render(this.getControls(), this.elements.topControlsElement);
         }
         return val;
       } catch (e) {
+        if (e instanceof PythonRunCancelledError) {
+          if (this.lastRunId === currentRunId) {
+            this.currentExecution = undefined;
+          }
+        } else {
+          finishExecution("errored");
+        }
+        handlePythonCellRunEnd(this.runtime, this.cell, false).catch((e) =>
+          console.error("Error finding the cells that depend on the cell:", e)
+        );
         // TODO dedupe
-        this.isCurrentlyLoadingPyodide = false;
+        this.runAbortControllers.delete(abortController);
+        unsubscribeFromPyodideLoadingProgress(this.onLoadingProgress);
+        this.loadingProgress = undefined;
         if (this.lastRunId === currentRunId) {
           this.isCurrentlyRunning = false;
+          unsubscribeFromPythonRunQueue(this.onRunQueueChange);
           lit.render(this.getControls(), this.elements.topControlsElement);
         }
         throw e;
       }
     }
 
+    /**
+     * Interrupts this cell's running code and cancels its runs that are still waiting for other cells.
+     */
+    stop() {
+      for (const controller of this.runAbortControllers) {
+        controller.abort();
+      }
+    }
+
     focusEditor() {
       this.editor.focus();
     }
 
     async dispose() {
+      // Runs that are still pending or running would otherwise keep updating the removed cell.
+      this.stop();
+      unsubscribeFromPythonReactivity(this.onReactivityChange);
+      unsubscribeFromPythonRunQueue(this.onRunQueueChange);
+      unsubscribeFromPyodideLoadingProgress(this.onLoadingProgress);
+      destroyCellProxies(this.elements.bottomElement);
+      releaseCellFigures(this.elements.bottomElement);
       this.editor.remove();
     }
 
     clear() {
+      destroyCellProxies(this.elements.bottomElement);
+      releaseCellFigures(this.elements.bottomElement);
+      clearEditorLineHighlight(this.editor);
+      this.setExecution(undefined);
+      setCellSavedOutputs(this.cell, undefined);
       const html = lit.html;
       lit.render(html``, this.elements.bottomElement);
     }
@@ -152,10 +481,52 @@ export const plugin: StarboardPlugin = {
   },
   exports: {
     getPyodideLoadingStatus: getPyodideLoadingStatus,
+    getPyodideLoadingError: getPyodideLoadingError,
     runStarboardPython: runStarboardPython,
     isPyProxy: isPyProxy,
     setGlobalPythonOutputElement: setGlobalPythonOutputElement,
     loadPyodide: loadPyodide,
+    interruptPython: interruptPython,
+    restartPython: restartPython,
+    registerMimeRenderer: registerMimeRenderer,
+    installPackages: installPackages,
+    prewarmArtifactCache: prewarmArtifactCache,
+    subscribeToPyodideLoadingProgress: subscribeToPyodideLoadingProgress,
+    exportVariable: exportVariable,
+    importVariable: importVariable,
+    keepPyProxyAlive: keepPyProxyAlive,
+    registerPythonCompletionProvider: registerPythonCompletionProvider,
+    registerLineMagic: registerLineMagic,
+    registerCellMagic: registerCellMagic,
+    unsubscribeFromPyodideLoadingProgress: unsubscribeFromPyodideLoadingProgress,
+    getPythonRunQueue: getPythonRunQueue,
+    subscribeToPythonRunQueue: subscribeToPythonRunQueue,
+    unsubscribeFromPythonRunQueue: unsubscribeFromPythonRunQueue,
+    cancelQueuedPythonRun: cancelQueuedPythonRun,
+    getPythonReactiveMode: getPythonReactiveMode,
+    getDependentPythonCells: getDependentPythonCells,
+    setPythonReactiveMode: setPythonReactiveMode,
+    subscribeToPythonReactivity: subscribeToPythonReactivity,
+    unsubscribeFromPythonReactivity: unsubscribeFromPythonReactivity,
+    listPythonFiles: listPythonFiles,
+    readPythonFile: readPythonFile,
+    writePythonFile: writePythonFile,
+    deletePythonFile: deletePythonFile,
+    uploadPythonFiles: uploadPythonFiles,
+    downloadPythonFile: downloadPythonFile,
+    persistPythonDirectory: persistPythonDirectory,
+    getPersistentPythonDirectories: getPersistentPythonDirectories,
+    listPythonNamespaces: listPythonNamespaces,
+    deletePythonNamespace: deletePythonNamespace,
+    getCellNamespace: getCellNamespace,
+    setCellNamespace: setCellNamespace,
+    getCellSavedOutputs: getCellSavedOutputs,
+    setCellSavedOutputs: setCellSavedOutputs,
+    ipynbToNotebookContent: ipynbToNotebookContent,
+    notebookContentToIpynb: notebookContentToIpynb,
+    definePythonModule: definePythonModule,
+    getCellModuleName: getCellModuleName,
+    setCellModuleName: setCellModuleName,
   },
   async register(runtime: Runtime, opts: StarboardPythonPluginOpts = {}) {
     setPluginOpts(opts);
@@ -0,0 +1,155 @@
+import { getPyodideLoadingStatus, subscribeToPyodideLoadingStatus } from "./global";
+import { withPythonRunLock } from "./lock";
+import { getPluginOpts } from "./opts";
+import { callStarboardPython } from "./pythonPackage";
+import { deleteVariableInWorker, inspectVariableInWorker, listVariablesInWorker } from "./workerClient";
+
+/**
+ * The variable inspector of the panel, it lists the user's Python globals (see `starboard._inspector`).
+ * The list is refreshed after every cell run.
+ */
+
+export interface PythonVariable {
+  name: string;
+  /**
+   * Qualified name of the type, without the module for builtin types.
+   */
+  type: string;
+  /**
+   * Shape of arrays and DataFrames, or the length of other sized values.
+   */
+  shape: number[] | null;
+  /**
+   * Estimated memory use in bytes, for containers this includes their direct elements.
+   */
+  size: number | null;
+  repr: string;
+  /**
+   * The value is a container that can be drilled down into.
+   */
+  expandable: boolean;
+}
+
+export interface PythonVariableDetails extends PythonVariable {
+  /**
+   * Labels of the variable and the children that were drilled down into.
+   */
+  path: string[];
+  /**
+   * Multi-line overview of DataFrames and arrays.
+   */
+  preview: string | null;
+  /**
+   * The first children of the value, `childCount` is the total.
+   */
+  children: PythonVariable[];
+  childCount: number;
+}
+
+let variables: PythonVariable[] = [];
+// Undefined for the shared globals of `__main__`, see `namespaces.ts`.
+let inspectedNamespace: string | undefined = undefined;
+const variableListeners = new Set<() => void>();
+
+function notifyVariableListeners() {
+  variableListeners.forEach((listener) => listener());
+}
+
+export function subscribeToPythonVariables(listener: () => void) {
+  variableListeners.add(listener);
+}
+
+export function unsubscribeFromPythonVariables(listener: () => void) {
+  variableListeners.delete(listener);
+}
+
+/**
+ * The user's globals as of the last refresh, sorted by name.
+ */
+export function getPythonVariables() {
+  return variables;
+}
+
+/**
+ * The namespace whose globals are listed.
+ */
+export function getInspectedPythonNamespace() {
+  return inspectedNamespace;
+}
+
+/**
+ * Lists the globals of another namespace from the next refresh on.
+ */
+export function setInspectedPythonNamespace(namespace: string | undefined) {
+  inspectedNamespace = namespace || undefined;
+}
+
+export async function refreshPythonVariables() {
+  if (getPyodideLoadingStatus() !== "ready") {
+    return;
+  }
+
+  try {
+    const json = getPluginOpts().runInWorker
+      ? await listVariablesInWorker(inspectedNamespace)
+      : callStarboardPython(window.pyodide, "starboard._inspector.list_variables", inspectedNamespace);
+    variables = JSON.parse(json);
+  } catch (e) {
+    // The worker was terminated by a restart in the meantime, the list gets refreshed once it is loaded again.
+    return;
+  }
+  notifyVariableListeners();
+}
+
+/**
+ * Describes a variable, or a value within it. The path consists of indices into the children of each level.
+ * Returns undefined if the variable (or the child) no longer exists.
+ */
+export async function inspectPythonVariable(
+  name: string,
+  path: number[] = []
+): Promise<PythonVariableDetails | undefined> {
+  if (getPyodideLoadingStatus() !== "ready") {
+    return undefined;
+  }
+
+  const json = getPluginOpts().runInWorker
+    ? await inspectVariableInWorker(name, path, inspectedNamespace)
+    : callStarboardPython(
+        window.pyodide,
+        "starboard._inspector.inspect_variable",
+        name,
+        JSON.stringify(path),
+        inspectedNamespace
+      );
+  return JSON.parse(json) ?? undefined;
+}
+
+/**
+ * Removes a global, waiting for running cells to finish first.
+ */
+export async function deletePythonVariable(name: string) {
+  await withPythonRunLock(
+    async () => {
+      if (getPyodideLoadingStatus() !== "ready") {
+        return;
+      }
+      if (getPluginOpts().runInWorker) {
+        await deleteVariableInWorker(name, inspectedNamespace);
+      } else {
+        callStarboardPython(window.pyodide, "starboard._inspector.delete_variable", name, inspectedNamespace);
+      }
+    },
+    { label: `Deleting variable ${name}` }
+  );
+  await refreshPythonVariables();
+}
+
+subscribeToPyodideLoadingStatus((status) => {
+  if (status === "ready") {
+    refreshPythonVariables();
+  } else if (status === "unstarted") {
+    variables = [];
+    notifyVariableListeners();
+  }
+});
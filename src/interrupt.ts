@@ -0,0 +1,111 @@
+import { createInterruptBuffer, SIGINT } from "./interruptBuffer";
+import { getPluginOpts } from "./opts";
+import { Pyodide } from "./typings";
+import { interruptWorker } from "./workerClient";
+
+/**
+ * How long we wait for the interpreter to act on an interrupt before we stop waiting for the code to finish.
+ * Python code that is awaiting a promise that never settles will not check for signals at all.
+ */
+const INTERRUPT_GRACE_PERIOD_MS = 1000;
+
+let mainThreadInterruptBuffer: Int32Array | undefined = undefined;
+
+export class PythonInterruptError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "KeyboardInterrupt";
+  }
+}
+
+/**
+ * The code didn't respond to the interrupt, it may still be running. Nothing else should run until `settled` resolves,
+ * which happens once the code finishes after all or the interpreter is restarted.
+ */
+export class PythonUnresponsiveError extends PythonInterruptError {
+  settled: Promise<void>;
+
+  constructor(message: string, settled: Promise<void>) {
+    super(message);
+    this.settled = settled;
+  }
+}
+
+// Resolve the `settled` promises of unresponsive code, called when the interpreter it runs in is replaced.
+const abandonListeners = new Set<() => void>();
+
+/**
+ * Stops waiting for code that didn't respond to an interrupt, only to be called when its interpreter is replaced.
+ */
+export function abandonUnresponsivePython() {
+  abandonListeners.forEach((listener) => listener());
+  abandonListeners.clear();
+}
+
+export function setupMainThreadInterrupts(pyodide: Pyodide) {
+  mainThreadInterruptBuffer = createInterruptBuffer();
+  pyodide.setInterruptBuffer(mainThreadInterruptBuffer);
+}
+
+/**
+ * Clears any interrupt that wasn't picked up by the interpreter, so it doesn't affect the next run.
+ */
+export function resetInterrupt() {
+  if (mainThreadInterruptBuffer) {
+    mainThreadInterruptBuffer[0] = 0;
+  }
+}
+
+/**
+ * Raises a KeyboardInterrupt in the currently running Python code.
+ * On the main thread this only takes effect once the code yields (e.g. in an `await`), in a worker it takes effect
+ * immediately if the page is cross-origin isolated.
+ */
+export function interruptPython() {
+  if (getPluginOpts().runInWorker) {
+    interruptWorker();
+  } else if (mainThreadInterruptBuffer) {
+    mainThreadInterruptBuffer[0] = SIGINT;
+  }
+}
+
+/**
+ * Interrupts the running Python code when the signal is aborted. If the code doesn't respond to the interrupt within
+ * the grace period the returned promise rejects with a `PythonUnresponsiveError`, so the caller can stop waiting on it.
+ *
+ * Code that runs synchronously for a long time can only be interrupted in a worker, and only if the page is
+ * cross-origin isolated. Without that there is no `SharedArrayBuffer` to signal the worker with while it is busy,
+ * the interrupt is a message the worker only handles once the code yields, so a loop that never yields can only be
+ * stopped by restarting Python.
+ */
+export function interruptOnAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    let timeout: number | undefined = undefined;
+    const onAbort = () => {
+      interruptPython();
+      timeout = window.setTimeout(() => {
+        const settled = new Promise<void>((resolveSettled) => {
+          const onSettled = () => {
+            abandonListeners.delete(onSettled);
+            resolveSettled();
+          };
+          abandonListeners.add(onSettled);
+          promise.then(onSettled, onSettled);
+        });
+        reject(
+          new PythonUnresponsiveError("Python code did not respond to the interrupt, it may still be running.", settled)
+        );
+      }, INTERRUPT_GRACE_PERIOD_MS);
+    };
+
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => {
+      window.clearTimeout(timeout);
+      signal.removeEventListener("abort", onAbort);
+    });
+  });
+}
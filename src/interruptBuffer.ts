@@ -0,0 +1,10 @@
+/**
+ * Value written into the interrupt buffer, Pyodide raises a KeyboardInterrupt when it sees it.
+ */
+export const SIGINT = 2;
+
+export function createInterruptBuffer() {
+  // Only a shared buffer can be written to while a worker is busy running synchronous Python code.
+  const canShare = typeof SharedArrayBuffer !== "undefined" && (self as any).crossOriginIsolated;
+  return new Int32Array(canShare ? new SharedArrayBuffer(4) : new ArrayBuffer(4));
+}
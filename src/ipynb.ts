@@ -0,0 +1,391 @@
+import type { Cell, NotebookContent } from "starboard-notebook/dist/src/types";
+import type { PythonCellExecution, PythonCellStatus } from "./execution";
+import type { MimeBundle } from "./mime";
+import type { SavedPythonOutput } from "./savedOutputs";
+import { PYTHON_CELL_TYPES } from "./util";
+
+/**
+ * Conversion between Jupyter notebooks (nbformat 4) and Starboard notebook content, such as that of `runtime.content`.
+ * Code cells become Python cells with their outputs saved in the cell (see `savedOutputs.ts`) and their execution
+ * count in its execution (see `execution.ts`), markdown cells stay markdown cells.
+ *
+ * Whatever one format has no place for is kept in the other, so a notebook converts back without loss:
+ * - The metadata of a Jupyter cell and its attachments are kept under `ipynb` in the Starboard cell's metadata.
+ * - The Starboard metadata of a cell is kept under `starboard` in the Jupyter cell's metadata.
+ * - Starboard cells other than Python and markdown become code cells with the matching IPython cell magic (such as
+ *   `%%html`) if there is one, raw cells otherwise.
+ * - Notebook metadata, including the kernel's, is the same in both.
+ *
+ * Magics in code cells are left as they are, the ones IPython has are run by `magics.ts`.
+ */
+
+type MultilineString = string | string[];
+
+export interface JupyterOutput {
+  output_type: string;
+  [key: string]: any;
+}
+
+export interface JupyterCell {
+  cell_type: "code" | "markdown" | "raw";
+  id?: string;
+  source: MultilineString;
+  metadata: Record<string, any>;
+  attachments?: Record<string, Record<string, MultilineString>>;
+  outputs?: JupyterOutput[];
+  execution_count?: number | null;
+}
+
+export interface JupyterNotebook {
+  nbformat: number;
+  nbformat_minor: number;
+  metadata: Record<string, any>;
+  cells: JupyterCell[];
+}
+
+/**
+ * Round-trip data of a Jupyter cell that Starboard has no place for, stored under `ipynb` in the cell's metadata.
+ */
+interface IpynbCellData {
+  metadata?: Record<string, any>;
+  attachments?: Record<string, Record<string, string>>;
+}
+
+const NBFORMAT_MINOR = 5;
+
+const DEFAULT_KERNELSPEC = { name: "python3", display_name: "Python 3 (Pyodide)", language: "python" };
+
+// Starboard cell types that IPython can run with a cell magic. The magic is the first line of the code cell.
+const CELL_TYPE_MAGICS: Record<string, string> = {
+  html: "html",
+  javascript: "javascript",
+  js: "javascript",
+  latex: "latex",
+};
+
+// See the `id` field of cells in the nbformat schema.
+const CELL_ID_REGEX = /^[a-zA-Z0-9-_]{1,64}$/;
+
+function generateCellId() {
+  const bytes = crypto.getRandomValues(new Uint8Array(6));
+  return "cell-" + Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+function isEmpty(obj: Record<string, any> | undefined) {
+  return obj === undefined || Object.keys(obj).length === 0;
+}
+
+function omit(obj: Record<string, any>, keys: string[]) {
+  const result = { ...obj };
+  keys.forEach((key) => delete result[key]);
+  return result;
+}
+
+function joinMultiline(text: MultilineString | undefined) {
+  return Array.isArray(text) ? text.join("") : text ?? "";
+}
+
+/**
+ * Lines with their line breaks, the way Jupyter writes multiline strings.
+ */
+function splitMultiline(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+function isJsonMimeType(mimeType: string) {
+  return /[/+]json$/.test(mimeType);
+}
+
+// Jupyter writes text as lines and binary data (which is base64) as a single string.
+function isTextMimeType(mimeType: string) {
+  return mimeType.startsWith("text/") || mimeType === "image/svg+xml" || mimeType === "application/javascript";
+}
+
+function importMimeBundle(data: Record<string, any>): MimeBundle {
+  const bundle: MimeBundle = {};
+  for (const mimeType of Object.keys(data)) {
+    const value = data[mimeType];
+    bundle[mimeType] = typeof value === "string" || Array.isArray(value) ? joinMultiline(value) : JSON.stringify(value);
+  }
+  return bundle;
+}
+
+function exportMimeBundle(bundle: MimeBundle): Record<string, any> {
+  const data: Record<string, any> = {};
+  for (const mimeType of Object.keys(bundle)) {
+    const value = bundle[mimeType];
+    if (isJsonMimeType(mimeType)) {
+      try {
+        data[mimeType] = JSON.parse(value);
+        continue;
+      } catch (e) {
+        // Not actually JSON, it is kept as a string.
+      }
+    }
+    data[mimeType] = isTextMimeType(mimeType) ? splitMultiline(value) : value;
+  }
+  return data;
+}
+
+function importOutput(output: JupyterOutput): SavedPythonOutput | undefined {
+  switch (output.output_type) {
+    case "stream":
+      return {
+        output_type: "stream",
+        name: output.name === "stderr" ? "stderr" : "stdout",
+        text: joinMultiline(output.text),
+      };
+    case "display_data":
+    case "execute_result": {
+      const saved: SavedPythonOutput = { output_type: output.output_type, data: importMimeBundle(output.data ?? {}) };
+      if (!isEmpty(output.metadata)) {
+        saved.metadata = output.metadata;
+      }
+      return saved;
+    }
+    case "error":
+      return {
+        output_type: "error",
+        ename: output.ename ?? "",
+        evalue: output.evalue ?? "",
+        traceback: output.traceback ?? [],
+      };
+    default:
+      return undefined;
+  }
+}
+
+function exportOutput(output: SavedPythonOutput, executionCount: number | null): JupyterOutput {
+  switch (output.output_type) {
+    case "stream":
+      return { output_type: "stream", name: output.name, text: splitMultiline(output.text) };
+    case "display_data":
+      return { output_type: "display_data", data: exportMimeBundle(output.data), metadata: output.metadata ?? {} };
+    case "execute_result":
+      return {
+        output_type: "execute_result",
+        execution_count: executionCount,
+        data: exportMimeBundle(output.data),
+        metadata: output.metadata ?? {},
+      };
+    case "error":
+      return { output_type: "error", ename: output.ename, evalue: output.evalue, traceback: output.traceback };
+  }
+}
+
+function getAttachmentUrl(attachment: Record<string, string>) {
+  const mimeType = Object.keys(attachment)[0];
+  return mimeType !== undefined ? `data:${mimeType};base64,${attachment[mimeType].replace(/\s/g, "")}` : undefined;
+}
+
+/**
+ * Markdown refers to the attachments of its cell as `attachment:<name>`, Starboard has no attachments so they are
+ * shown from data URLs instead. Longer names go first, so no name replaces the start of another.
+ */
+function replaceAttachments(text: string, attachments: Record<string, Record<string, string>>, toUrls: boolean) {
+  const names = Object.keys(attachments).sort((a, b) => b.length - a.length);
+  for (const name of names) {
+    const reference = `attachment:${name}`;
+    const url = getAttachmentUrl(attachments[name]);
+    if (url !== undefined) {
+      text = toUrls ? text.split(reference).join(url) : text.split(url).join(reference);
+    }
+  }
+  return text;
+}
+
+function getImportedStatus(outputs: SavedPythonOutput[]): PythonCellStatus {
+  return outputs.some((output) => output.output_type === "error") ? "errored" : "finished";
+}
+
+function importCell(jupyterCell: JupyterCell, usedIds: Set<string>): Cell {
+  const jupyterMetadata = omit(jupyterCell.metadata ?? {}, ["starboard"]);
+  const starboardMetadata: Record<string, any> = jupyterCell.metadata?.starboard ?? {};
+
+  const properties: Cell["metadata"]["properties"] = { ...starboardMetadata.properties };
+  if (jupyterMetadata.jupyter?.source_hidden) {
+    properties.collapsed = true;
+    jupyterMetadata.jupyter = omit(jupyterMetadata.jupyter, ["source_hidden"]);
+    if (isEmpty(jupyterMetadata.jupyter)) {
+      delete jupyterMetadata.jupyter;
+    }
+  }
+  if (jupyterMetadata.editable === false) {
+    properties.locked = true;
+    delete jupyterMetadata.editable;
+  }
+
+  const metadata: Cell["metadata"] = { ...omit(starboardMetadata, ["properties", "cell_type"]), properties };
+  let textContent = joinMultiline(jupyterCell.source);
+  let cellType: string;
+
+  const ipynb: IpynbCellData = {};
+  if (!isEmpty(jupyterMetadata)) {
+    ipynb.metadata = jupyterMetadata;
+  }
+
+  if (jupyterCell.cell_type === "code") {
+    cellType = starboardMetadata.cell_type ?? "python";
+    const magic = CELL_TYPE_MAGICS[cellType];
+    if (magic !== undefined && textContent.startsWith(`%%${magic}\n`)) {
+      textContent = textContent.slice(magic.length + 3);
+    }
+
+    const outputs = (jupyterCell.outputs ?? [])
+      .map(importOutput)
+      .filter((output): output is SavedPythonOutput => output !== undefined);
+    if (outputs.length > 0) {
+      metadata.outputs = outputs;
+    } else {
+      delete metadata.outputs;
+    }
+
+    const executionCount = jupyterCell.execution_count;
+    if (executionCount !== undefined && executionCount !== null) {
+      const execution: PythonCellExecution = {
+        status: getImportedStatus(outputs),
+        ...starboardMetadata.execution,
+        execution_count: executionCount,
+      };
+      metadata.execution = execution;
+    } else {
+      delete metadata.execution;
+    }
+  } else {
+    cellType = starboardMetadata.cell_type ?? (jupyterCell.cell_type === "markdown" ? "markdown" : "raw");
+    const attachments: Record<string, Record<string, string>> = {};
+    for (const name of Object.keys(jupyterCell.attachments ?? {})) {
+      attachments[name] = importMimeBundle(jupyterCell.attachments![name]);
+    }
+    if (!isEmpty(attachments)) {
+      ipynb.attachments = attachments;
+      textContent = replaceAttachments(textContent, attachments, true);
+    }
+  }
+
+  if (!isEmpty(ipynb)) {
+    metadata.ipynb = ipynb;
+  }
+
+  let id = jupyterCell.id;
+  if (id === undefined || usedIds.has(id)) {
+    id = generateCellId();
+  }
+  usedIds.add(id);
+  return { cellType, textContent, metadata, id };
+}
+
+function exportCell(cell: Cell, usedIds: Set<string>): JupyterCell {
+  const ipynb: IpynbCellData = cell.metadata.ipynb ?? {};
+  const properties = cell.metadata.properties ?? {};
+  const jupyterMetadata: Record<string, any> = { ...ipynb.metadata };
+
+  if (properties.collapsed) {
+    jupyterMetadata.jupyter = { ...jupyterMetadata.jupyter, source_hidden: true };
+  }
+  if (properties.locked) {
+    jupyterMetadata.editable = false;
+  }
+
+  const starboardMetadata = omit(cell.metadata, ["properties", "outputs", "execution", "ipynb"]);
+  const otherProperties = omit(properties, ["collapsed", "locked"]);
+  if (!isEmpty(otherProperties)) {
+    starboardMetadata.properties = otherProperties;
+  }
+
+  let id = cell.id;
+  if (!CELL_ID_REGEX.test(id) || usedIds.has(id)) {
+    id = generateCellId();
+  }
+  usedIds.add(id);
+
+  let jupyterCell: JupyterCell;
+  const magic = CELL_TYPE_MAGICS[cell.cellType];
+  if (PYTHON_CELL_TYPES.includes(cell.cellType) || magic !== undefined) {
+    const execution: PythonCellExecution | undefined = cell.metadata.execution;
+    const executionCount = execution?.execution_count ?? null;
+    const outputs: SavedPythonOutput[] = cell.metadata.outputs ?? [];
+    // The execution count and the status it has after being imported are implied by the Jupyter cell.
+    const executionDetails = omit(execution ?? {}, ["execution_count"]);
+    if (executionDetails.status === getImportedStatus(outputs)) {
+      delete executionDetails.status;
+    }
+    if (!isEmpty(executionDetails)) {
+      starboardMetadata.execution = executionDetails;
+    }
+    jupyterCell = {
+      cell_type: "code",
+      id,
+      source: splitMultiline(magic !== undefined ? `%%${magic}\n${cell.textContent}` : cell.textContent),
+      metadata: jupyterMetadata,
+      execution_count: executionCount,
+      outputs: outputs.map((output) => exportOutput(output, executionCount)),
+    };
+  } else {
+    const source = ipynb.attachments
+      ? replaceAttachments(cell.textContent, ipynb.attachments, false)
+      : cell.textContent;
+    jupyterCell = {
+      cell_type: cell.cellType === "markdown" ? "markdown" : "raw",
+      id,
+      source: splitMultiline(source),
+      metadata: jupyterMetadata,
+    };
+    if (ipynb.attachments) {
+      jupyterCell.attachments = {};
+      for (const name of Object.keys(ipynb.attachments)) {
+        jupyterCell.attachments[name] = exportMimeBundle(ipynb.attachments[name]);
+      }
+    }
+  }
+
+  if (cell.cellType !== (jupyterCell.cell_type === "code" ? "python" : jupyterCell.cell_type)) {
+    starboardMetadata.cell_type = cell.cellType;
+  }
+  if (!isEmpty(starboardMetadata)) {
+    jupyterCell.metadata.starboard = starboardMetadata;
+  }
+  return jupyterCell;
+}
+
+/**
+ * Converts a Jupyter notebook, as an object or as the text of an `.ipynb` file.
+ */
+export function ipynbToNotebookContent(ipynb: JupyterNotebook | string): NotebookContent {
+  const notebook: JupyterNotebook = typeof ipynb === "string" ? JSON.parse(ipynb) : ipynb;
+  if (notebook.nbformat !== 4) {
+    throw new Error(`Only nbformat 4 notebooks can be imported, this one is nbformat ${notebook.nbformat}`);
+  }
+  const language = notebook.metadata?.kernelspec?.language ?? notebook.metadata?.language_info?.name;
+  if (language !== undefined && language !== "python") {
+    throw new Error(`Only Python notebooks can be imported, this one is ${language}`);
+  }
+
+  const usedIds = new Set<string>();
+  return {
+    metadata: { ...notebook.metadata },
+    cells: notebook.cells.map((cell) => importCell(cell, usedIds)),
+  };
+}
+
+/**
+ * Converts Starboard notebook content into a Jupyter notebook, `JSON.stringify` it for the text of an `.ipynb` file.
+ * Notebooks without kernel metadata get that of Pyodide's Python.
+ */
+export function notebookContentToIpynb(content: NotebookContent): JupyterNotebook {
+  const metadata: Record<string, any> = { ...content.metadata };
+  if (metadata.kernelspec === undefined) {
+    metadata.kernelspec = DEFAULT_KERNELSPEC;
+  }
+  if (metadata.language_info === undefined) {
+    metadata.language_info = { name: "python" };
+  }
+
+  const usedIds = new Set<string>();
+  return {
+    nbformat: 4,
+    nbformat_minor: NBFORMAT_MINOR,
+    metadata,
+    cells: content.cells.map((cell) => exportCell(cell, usedIds)),
+  };
+}
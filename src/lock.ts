@@ -0,0 +1,146 @@
+/**
+ * The queue that serializes all Python execution: cells, package installs and restarts run one at a time, in the
+ * order they were queued. The queue can be observed, to show which cell is running and which ones are waiting.
+ */
+
+export type PythonRunState = "pending" | "running";
+
+export interface PythonRunQueueEntry {
+  id: number;
+  /**
+   * The cell the run belongs to, not set for other work such as installing packages.
+   */
+  cellId?: string;
+  /**
+   * What the work is, such as "Installing packages".
+   */
+  label?: string;
+  state: PythonRunState;
+}
+
+export interface AcquirePythonRunLockOptions {
+  cellId?: string;
+  label?: string;
+  /**
+   * Aborting takes the entry out of the queue if it is still pending, which rejects with a `PythonRunCancelledError`.
+   */
+  signal?: AbortSignal;
+}
+
+export class PythonRunCancelledError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PythonRunCancelledError";
+  }
+}
+
+interface QueueItem {
+  entry: PythonRunQueueEntry;
+  start: () => void;
+  cancel: () => void;
+}
+
+// The first item is the one that is running (if any), the others are pending.
+const queue: QueueItem[] = [];
+let lastEntryId = 0;
+const queueListeners = new Set<() => void>();
+
+function notifyQueueListeners() {
+  queueListeners.forEach((listener) => listener());
+}
+
+export function subscribeToPythonRunQueue(listener: () => void) {
+  queueListeners.add(listener);
+}
+
+export function unsubscribeFromPythonRunQueue(listener: () => void) {
+  queueListeners.delete(listener);
+}
+
+/**
+ * A snapshot of the queue, the running entry (if any) comes first.
+ */
+export function getPythonRunQueue(): PythonRunQueueEntry[] {
+  return queue.map((item) => ({ ...item.entry }));
+}
+
+function startNext() {
+  const next = queue[0];
+  if (next && next.entry.state === "pending") {
+    next.entry.state = "running";
+    next.start();
+  }
+}
+
+/**
+ * Waits for all Python code that was queued before this call to finish.
+ * Returns a function that releases the lock again, no other Python code will run until it is called.
+ */
+export function acquirePythonRunLock(opts: AcquirePythonRunLockOptions = {}): Promise<() => void> {
+  return new Promise((resolve, reject) => {
+    const signal = opts.signal;
+    if (signal?.aborted) {
+      reject(new PythonRunCancelledError("Cancelled before it started running."));
+      return;
+    }
+
+    const entry: PythonRunQueueEntry = { id: ++lastEntryId, cellId: opts.cellId, label: opts.label, state: "pending" };
+    const onAbort = () => cancelQueuedPythonRun(entry.id);
+    const item: QueueItem = {
+      entry,
+      start: () => {
+        signal?.removeEventListener("abort", onAbort);
+        let isReleased = false;
+        resolve(() => {
+          if (isReleased) {
+            return;
+          }
+          isReleased = true;
+          queue.splice(queue.indexOf(item), 1);
+          startNext();
+          notifyQueueListeners();
+        });
+      },
+      cancel: () => {
+        signal?.removeEventListener("abort", onAbort);
+        reject(new PythonRunCancelledError("Cancelled before it started running."));
+      },
+    };
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+    queue.push(item);
+    startNext();
+    notifyQueueListeners();
+  });
+}
+
+/**
+ * Takes a pending entry out of the queue, the code waiting for it gets a `PythonRunCancelledError`.
+ * Returns false if the entry is not pending (anymore), running code has to be interrupted instead.
+ */
+export function cancelQueuedPythonRun(id: number) {
+  const index = queue.findIndex((item) => item.entry.id === id && item.entry.state === "pending");
+  if (index === -1) {
+    return false;
+  }
+
+  const item = queue.splice(index, 1)[0];
+  item.cancel();
+  notifyQueueListeners();
+  return true;
+}
+
+/**
+ * Runs the given function while holding the Python run lock.
+ */
+export async function withPythonRunLock<T>(
+  fn: () => Promise<T> | T,
+  opts: AcquirePythonRunLockOptions = {}
+): Promise<T> {
+  const releaseLock = await acquirePythonRunLock(opts);
+  try {
+    return await fn();
+  } finally {
+    releaseLock();
+  }
+}
@@ -0,0 +1,227 @@
+import type { Runtime } from "starboard-notebook/dist/src/types";
+import { renderLatex } from "./mime";
+import { getPluginOpts } from "./opts";
+import { callStarboardPython } from "./pythonPackage";
+import { findStatementLinesInWorker } from "./workerClient";
+
+/**
+ * IPython-style magics. Line magics (`%name args`) and shell commands (`!command`) are rewritten into Python code
+ * before the cell runs, most of them call into `starboard._magics`. A cell magic (`%%name args` on the first line)
+ * takes over the whole cell: it either rewrites the cell into Python code as well, or handles the cell by itself.
+ * Only lines that start a statement are magics, which is found by Python's tokenizer: a line in brackets, in a
+ * multi-line string or after a backslash that looks like a magic (such as `!= b` in brackets) is left alone.
+ * `%pip install` lines are taken out of the cell before any of this, see `extractPipInstalls`.
+ */
+
+/**
+ * Returns the Python code that takes the place of the line, given the text after the magic's name.
+ */
+export type LineMagic = (args: string) => string;
+
+export interface CellMagicContext {
+  runtime: Runtime;
+  /**
+   * Shows an element in the output of the cell.
+   */
+  appendElement(element: HTMLElement): void;
+}
+
+/**
+ * Either Python code that runs in place of the cell, or the value of the cell if the magic handled it by itself.
+ * Pyodide only loads the packages for the imports it sees in the code, the `importSource` is Python code whose imports
+ * are loaded as well, such as the body of the cell when the code runs it from a string.
+ */
+export type CellMagicResult = { code: string; importSource?: string } | { value: any };
+
+/**
+ * Handles a cell that starts with the magic, `args` is the rest of the first line and `body` the lines after it.
+ */
+export type CellMagic = (
+  args: string,
+  body: string,
+  context: CellMagicContext
+) => CellMagicResult | Promise<CellMagicResult>;
+
+export interface CellMagicOptions {
+  /**
+   * The body of the cell is Python code, so its `%pip install` lines install packages like those of other cells.
+   */
+  hasPythonBody?: boolean;
+}
+
+const lineMagics = new Map<string, LineMagic>();
+const cellMagics = new Map<string, CellMagic>();
+const pythonBodyCellMagics = new Set<string>();
+
+const LINE_MAGIC_REGEX = /^(\s*)%(\w+)(.*)$/;
+// Optionally assigned to a variable, as in `files = !ls`.
+const SHELL_COMMAND_REGEX = /^(\s*)(?:([A-Za-z_]\w*)\s*=\s*)?!(.*)$/;
+const CELL_MAGIC_REGEX = /^\s*%%(\w+)(.*)$/;
+
+/**
+ * A string literal in Python code, JSON strings happen to be valid Python.
+ */
+export function toPythonString(text: string) {
+  return JSON.stringify(text);
+}
+
+function callMagicsModule(fn: string, ...args: string[]) {
+  return `__import__("starboard._magics").${fn}(${args.join(", ")})`;
+}
+
+export function registerLineMagic(name: string, magic: LineMagic) {
+  lineMagics.set(name, magic);
+}
+
+export function registerCellMagic(name: string, magic: CellMagic, opts: CellMagicOptions = {}) {
+  cellMagics.set(name, magic);
+  if (opts.hasPythonBody) {
+    pythonBodyCellMagics.add(name);
+  } else {
+    pythonBodyCellMagics.delete(name);
+  }
+}
+
+/**
+ * Whether the code starts with a cell magic whose body isn't Python, such as `%%html` (or one that doesn't exist).
+ */
+export function startsWithNonPythonCellMagic(code: string) {
+  const firstLineEnd = code.indexOf("\n");
+  const match = CELL_MAGIC_REGEX.exec(firstLineEnd === -1 ? code : code.substring(0, firstLineEnd));
+  return match !== null && !pythonBodyCellMagics.has(match[1]);
+}
+
+function looksLikeMagic(line: string) {
+  return LINE_MAGIC_REGEX.test(line) || SHELL_COMMAND_REGEX.test(line);
+}
+
+/**
+ * The indexes of the lines of the code that start a statement, needs the interpreter to be loaded.
+ */
+async function getStatementLines(code: string): Promise<Set<number>> {
+  const json = getPluginOpts().runInWorker
+    ? await findStatementLinesInWorker(code)
+    : callStarboardPython(window.pyodide, "starboard._magics.statement_lines", code);
+  return new Set(JSON.parse(json));
+}
+
+/**
+ * Rewrites the line magics and shell commands in the code into Python. Every line stays a single line, so line
+ * numbers in tracebacks still match the cell. Needs the interpreter to be loaded if the code contains magics.
+ */
+export async function transformLineMagics(code: string) {
+  const lines = code.split("\n");
+  if (!lines.some(looksLikeMagic)) {
+    return code;
+  }
+
+  const statementLines = await getStatementLines(code);
+  return lines
+    .map((line, i) => {
+      if (!statementLines.has(i) || line.trimStart().startsWith("%%")) {
+        return line;
+      }
+
+      const magic = LINE_MAGIC_REGEX.exec(line);
+      if (magic) {
+        const handler = lineMagics.get(magic[2]);
+        const replacement = handler
+          ? handler(magic[3].trim())
+          : callMagicsModule("unknown", '"line"', toPythonString(magic[2]));
+        return magic[1] + replacement;
+      }
+
+      const shell = SHELL_COMMAND_REGEX.exec(line);
+      if (shell) {
+        const assignment = shell[2] ? `${shell[2]} = ` : "";
+        return shell[1] + assignment + callMagicsModule("shell", toPythonString(shell[3].trim()));
+      }
+      return line;
+    })
+    .join("\n");
+}
+
+/**
+ * Runs the cell magic the code starts with, if any. Returns the Python code to run, with its line magics rewritten,
+ * or the value of the cell when the magic handled it by itself.
+ */
+export async function applyMagics(code: string, context: CellMagicContext): Promise<CellMagicResult> {
+  const firstLineEnd = code.indexOf("\n");
+  const firstLine = firstLineEnd === -1 ? code : code.substring(0, firstLineEnd);
+  const match = CELL_MAGIC_REGEX.exec(firstLine);
+  if (!match) {
+    return { code: await transformLineMagics(code) };
+  }
+
+  const body = firstLineEnd === -1 ? "" : code.substring(firstLineEnd + 1);
+  const handler = cellMagics.get(match[1]);
+  if (!handler) {
+    return { code: callMagicsModule("unknown", '"cell"', toPythonString(match[1])) };
+  }
+  return handler(match[2].trim(), body, context);
+}
+
+registerLineMagic("time", (args) => callMagicsModule("time", toPythonString(args)));
+registerLineMagic("timeit", (args) => callMagicsModule("timeit", toPythonString(args)));
+registerLineMagic("who", (args) => callMagicsModule("who", toPythonString(args)));
+registerLineMagic("reset", (args) => callMagicsModule("reset", toPythonString(args)));
+registerLineMagic("matplotlib", (args) => callMagicsModule("matplotlib", toPythonString(args)));
+// Only reached for `%pip` lines that weren't taken out of the cell, such as `%pip list`.
+registerLineMagic("pip", (args) => callMagicsModule("pip", toPythonString(args)));
+
+/**
+ * The body of a cell magic as a string literal for code that runs it. It gets an empty first line in place of the
+ * magic's line, so the line numbers in its tracebacks are those of the cell.
+ */
+function toCellBodyString(body: string) {
+  return toPythonString("\n" + body);
+}
+
+registerCellMagic(
+  "time",
+  async (_args, body) => {
+    const code = await transformLineMagics(body);
+    return { code: "await " + callMagicsModule("time_cell", toCellBodyString(code)), importSource: code };
+  },
+  { hasPythonBody: true }
+);
+registerCellMagic(
+  "timeit",
+  async (args, body) => {
+    const code = await transformLineMagics(body);
+    return { code: callMagicsModule("timeit", toPythonString(args), toPythonString(code)), importSource: code };
+  },
+  { hasPythonBody: true }
+);
+registerCellMagic(
+  "capture",
+  async (args, body) => {
+    const code = await transformLineMagics(body);
+    return {
+      code: "await " + callMagicsModule("capture", toPythonString(args), toCellBodyString(code)),
+      importSource: code,
+    };
+  },
+  { hasPythonBody: true }
+);
+registerCellMagic("html", (_args, body, context) => {
+  const div = document.createElement("div");
+  div.innerHTML = body;
+  context.appendElement(div);
+  return { value: undefined };
+});
+// Also what the LaTeX cells of imported notebooks turn into, see `ipynb.ts`.
+registerCellMagic("latex", async (_args, body, context) => {
+  context.appendElement(await renderLatex(body.trim(), context.runtime));
+  return { value: undefined };
+});
+
+async function runJavascript(_args: string, body: string, context: CellMagicContext) {
+  const result = await new context.runtime.exports.core.JavascriptEvaluator().run(body);
+  if (result.error) {
+    throw result.value;
+  }
+  return { value: result.value };
+}
+registerCellMagic("javascript", runJavascript);
+registerCellMagic("js", runJavascript);
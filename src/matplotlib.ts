@@ -1,16 +1,10 @@
 /**
- * Matplotlib currently creates a dom element which never gets attached to the DOM.
- * Without a way to specify our own DOM node creation function, we override it here - saving us from shipping our own matplotlib package.
+ * Matplotlib's WASM backend creates the element for a figure but never attaches it to the document, and inside a
+ * worker there is no document at all. `starboard._matplotlib` takes care of both once matplotlib is loaded, this
+ * saves us from shipping our own matplotlib package. See `figures.ts` for the Javascript side.
  */
 export function patchMatplotlib(module: { runPythonSimple: (code: string) => any }) {
-  module.runPythonSimple(`import matplotlib
-import matplotlib.pyplot
-from js import pyodide as jspyodide
-
-def create_root_element(self):
-  el = jspyodide.matplotlibHelpers.createElement("div");
-  return el
-
-matplotlib.backends.wasm_backend.FigureCanvasWasm.create_root_element = create_root_element
+  module.runPythonSimple(`import starboard._matplotlib
+starboard._matplotlib.install()
 `);
 }
@@ -0,0 +1,184 @@
+import type { Runtime } from "starboard-notebook/dist/src/types";
+
+/**
+ * Representations of a Python object keyed by mime type, as produced by `starboard._repr.get_mimebundle`.
+ * Binary data (PNG and JPEG images) is base64 encoded, JSON is a JSON string.
+ */
+export type MimeBundle = Record<string, string>;
+
+export interface MimeRenderer {
+  mimeType: string;
+  /**
+   * When an object has multiple representations the one with the highest priority renderer is shown.
+   */
+  priority: number;
+  /**
+   * Gets the data for its mime type, the whole bundle is passed along for renderers that combine representations.
+   */
+  render(data: string, runtime: Runtime, bundle: MimeBundle): HTMLElement | Promise<HTMLElement>;
+}
+
+const mimeRenderers = new Map<string, MimeRenderer>();
+
+/**
+ * Registers a renderer for a mime type, replacing any existing renderer for it.
+ */
+export function registerMimeRenderer(renderer: MimeRenderer) {
+  mimeRenderers.set(renderer.mimeType, renderer);
+}
+
+export function getMimeRenderers() {
+  return Array.from(mimeRenderers.values()).sort((a, b) => b.priority - a.priority);
+}
+
+/**
+ * The mime type of the richest representation in the bundle that we know how to render.
+ */
+export function getPreferredMimeType(bundle: MimeBundle): string | undefined {
+  return getMimeRenderers().find((r) => bundle[r.mimeType] !== undefined)?.mimeType;
+}
+
+/**
+ * Renders the richest representation in the bundle. A renderer that fails (such as on invalid data) is shown as an
+ * error in place of the output, so this never rejects.
+ */
+export async function renderMimeBundle(runtime: Runtime, bundle: MimeBundle): Promise<HTMLElement | undefined> {
+  const mimeType = getPreferredMimeType(bundle);
+  if (mimeType === undefined) {
+    return undefined;
+  }
+  try {
+    return await mimeRenderers.get(mimeType)!.render(bundle[mimeType], runtime, bundle);
+  } catch (e) {
+    console.error(`Could not render output of type ${mimeType}:`, e);
+    return renderRenderError(mimeType, e);
+  }
+}
+
+function renderRenderError(mimeType: string, error: any) {
+  const pre = document.createElement("pre");
+  pre.className = "starboard-python-stream starboard-python-stream-stderr";
+  pre.textContent = `Could not render the ${mimeType} output: ${error?.message ?? error}`;
+  return pre;
+}
+
+function createOutputElement() {
+  const div = document.createElement("div");
+  div.className = "rendered_html cell-output-html";
+  return div;
+}
+
+export function renderHtml(data: string) {
+  const div = createOutputElement();
+  const body = new DOMParser().parseFromString(data, "text/html").body;
+  div.append(...Array.from(body.childNodes));
+  return div;
+}
+
+export async function renderLatex(data: string, runtime: Runtime) {
+  let div = createOutputElement();
+  const katex = await runtime.exports.libraries.async.KaTeX();
+  if (data.startsWith("$$")) {
+    data = data.substr(2, data.length - 3);
+    katex.render(data, div, {
+      throwOnError: false,
+      errorColor: " #cc0000",
+      displayMode: true,
+    });
+  } else if (data.startsWith("$")) {
+    data = data.substr(1, data.length - 2);
+    katex.render(data, div, {
+      throwOnError: false,
+      errorColor: " #cc0000",
+      displayMode: false,
+    });
+  } else {
+    katex.render(data, div, {
+      throwOnError: false,
+      errorColor: " #cc0000",
+      displayMode: true,
+    });
+  }
+  return div;
+}
+
+let markdownRenderer: any = undefined;
+
+async function renderMarkdown(data: string, runtime: Runtime) {
+  if (!markdownRenderer) {
+    const md = new runtime.exports.libraries.MarkdownIt();
+    runtime.exports.core.hookMarkdownItToPrismHighlighter(md);
+    await runtime.exports.core.hookMarkdownItToKaTeX(md);
+    markdownRenderer = md;
+  }
+  const div = createOutputElement();
+  div.innerHTML = markdownRenderer.render(data);
+  return div;
+}
+
+function renderImage(src: string) {
+  const div = createOutputElement();
+  const img = document.createElement("img");
+  img.src = src;
+  div.appendChild(img);
+  return div;
+}
+
+function renderJsonValue(value: any, key?: string): HTMLElement {
+  const label = key !== undefined ? `${key}: ` : "";
+
+  if (value !== null && typeof value === "object") {
+    const entries = Array.isArray(value) ? value.map((v, i) => [`${i}`, v]) : Object.entries(value);
+    const details = document.createElement("details");
+    const summary = document.createElement("summary");
+    summary.textContent = `${label}${Array.isArray(value) ? `Array(${entries.length})` : `Object(${entries.length})`}`;
+    details.appendChild(summary);
+    for (const [k, v] of entries) {
+      details.appendChild(renderJsonValue(v, k));
+    }
+    return details;
+  }
+
+  const div = document.createElement("div");
+  div.className = "starboard-python-json-value";
+  div.textContent = `${label}${JSON.stringify(value)}`;
+  return div;
+}
+
+function renderJson(data: string) {
+  const div = createOutputElement();
+  div.classList.add("starboard-python-json");
+  const tree = renderJsonValue(JSON.parse(data));
+  if (tree instanceof HTMLDetailsElement) {
+    tree.open = true;
+  }
+  div.appendChild(tree);
+  return div;
+}
+
+function renderPlainText(data: string) {
+  const pre = document.createElement("pre");
+  pre.textContent = data;
+  return pre;
+}
+
+registerMimeRenderer({ mimeType: "text/html", priority: 90, render: renderHtml });
+registerMimeRenderer({ mimeType: "text/markdown", priority: 80, render: renderMarkdown });
+registerMimeRenderer({
+  mimeType: "image/svg+xml",
+  priority: 70,
+  render: (data) => renderImage(`data:image/svg+xml;charset=utf-8,${encodeURIComponent(data)}`),
+});
+registerMimeRenderer({
+  mimeType: "image/png",
+  priority: 60,
+  render: (data) => renderImage(`data:image/png;base64,${data}`),
+});
+registerMimeRenderer({
+  mimeType: "image/jpeg",
+  priority: 60,
+  render: (data) => renderImage(`data:image/jpeg;base64,${data}`),
+});
+registerMimeRenderer({ mimeType: "text/latex", priority: 50, render: renderLatex });
+registerMimeRenderer({ mimeType: "application/json", priority: 40, render: renderJson });
+registerMimeRenderer({ mimeType: "text/plain", priority: 0, render: renderPlainText });
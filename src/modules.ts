@@ -0,0 +1,125 @@
+import type { Cell, Runtime } from "starboard-notebook/dist/src/types";
+import { refreshPythonFiles } from "./files";
+import { DEFAULT_WORKING_DIRECTORY } from "./filesystem";
+import { loadPyodide, subscribeToPyodideLoadingStatus } from "./global";
+import { withPythonRunLock } from "./lock";
+import { toPythonString } from "./magics";
+import { getPluginOpts } from "./opts";
+import { extractPipInstalls } from "./packages";
+import { callStarboardPython } from "./pythonPackage";
+import { PYTHON_CELL_TYPES } from "./util";
+import { defineModuleInWorker } from "./workerClient";
+
+/**
+ * Module cells hold the code of a Python module instead of code that runs in the globals, so helpers can be kept in
+ * the notebook and be imported by other cells. A Python cell is a module cell when the `module` field of its metadata
+ * is set to the name of the module. Its code is written to `<name>.py` in Python's working directory (dots in the
+ * name make packages), see `starboard._modules` for the Python side.
+ *
+ * Before any Python cell runs, the module cells whose code changed since it was last written are written again, so
+ * `import helpers` works without running the module cell first. A module that is imported already gets reloaded.
+ * Running a module cell imports its module, which shows errors in its code. Apart from `%pip install` lines, the
+ * code of a module cell is plain Python without magics. The packages it imports are loaded when it is written, as
+ * Pyodide only looks at the imports of the code it runs.
+ */
+
+const MODULE_NAME_REGEX = /^[A-Za-z_]\w*(\.[A-Za-z_]\w*)*$/;
+
+// The code each module was last written with, the files are gone when the interpreter is.
+const definedModules = new Map<string, string>();
+
+export function getCellModuleName(cell: Cell): string | undefined {
+  return cell.metadata.module || undefined;
+}
+
+export function setCellModuleName(cell: Cell, name: string | undefined) {
+  if (name && !MODULE_NAME_REGEX.test(name)) {
+    throw new Error(`"${name}" is not a valid Python module name`);
+  }
+  if (name) {
+    cell.metadata.module = name;
+  } else {
+    delete cell.metadata.module;
+  }
+}
+
+/**
+ * The file a module is written to.
+ */
+export function getPythonModulePath(name: string) {
+  return `${DEFAULT_WORKING_DIRECTORY}/${name.split(".").join("/")}.py`;
+}
+
+function getModuleSource(code: string) {
+  return extractPipInstalls(code).code;
+}
+
+async function defineModuleWhileLocked(name: string, source: string) {
+  // Set first, code that fails to reload was still written.
+  definedModules.set(name, source);
+  if (getPluginOpts().runInWorker) {
+    await defineModuleInWorker(name, source, DEFAULT_WORKING_DIRECTORY);
+  } else {
+    await window.pyodide.loadPackagesFromImports(source);
+    callStarboardPython(window.pyodide, "starboard._modules.define", name, source, DEFAULT_WORKING_DIRECTORY);
+  }
+}
+
+/**
+ * Writes the module cells of the notebook whose code changed, except for the module of the cell that is about to run.
+ * When several cells define the same module the last one wins. A module that fails to reload (or whose packages fail
+ * to load) is reported to `onError` rather than failing the cell that is about to run, it has nothing to do with it.
+ */
+export async function syncPythonModuleCellsWhileLocked(
+  runtime: Runtime,
+  skippedModule: string | undefined,
+  onError: (name: string, error: Error) => void
+) {
+  const sources = new Map<string, string>();
+  for (const cell of runtime.content.cells) {
+    const name = getCellModuleName(cell);
+    if (name !== undefined && name !== skippedModule && PYTHON_CELL_TYPES.includes(cell.cellType)) {
+      sources.set(name, getModuleSource(cell.textContent));
+    }
+  }
+
+  for (const name of Array.from(sources.keys())) {
+    const source = sources.get(name)!;
+    if (definedModules.get(name) !== source) {
+      try {
+        await defineModuleWhileLocked(name, source);
+      } catch (e) {
+        onError(name, e);
+      }
+    }
+  }
+}
+
+/**
+ * The Python code that runs a module cell, given its code without the `%pip install` lines. The module counts as
+ * written with that code from then on.
+ */
+export function getModuleCellCode(name: string, code: string) {
+  definedModules.set(name, code);
+  const args = [name, code, DEFAULT_WORKING_DIRECTORY].map(toPythonString).join(", ");
+  return `__import__("starboard._modules").run(${args})`;
+}
+
+/**
+ * Defines a module from code, such as one of a multi-file project. It can be imported right after, if it is imported
+ * already it gets reloaded.
+ */
+export async function definePythonModule(name: string, source: string) {
+  if (!MODULE_NAME_REGEX.test(name)) {
+    throw new Error(`"${name}" is not a valid Python module name`);
+  }
+  await loadPyodide();
+  await withPythonRunLock(() => defineModuleWhileLocked(name, source), { label: `Defining module ${name}` });
+  await refreshPythonFiles();
+}
+
+subscribeToPyodideLoadingStatus((status) => {
+  if (status === "unstarted") {
+    definedModules.clear();
+  }
+});
@@ -0,0 +1,65 @@
+import type { Cell } from "starboard-notebook/dist/src/types";
+import { getPyodideLoadingStatus } from "./global";
+import { getInspectedPythonNamespace, refreshPythonVariables, setInspectedPythonNamespace } from "./inspector";
+import { withPythonRunLock } from "./lock";
+import { getPluginOpts } from "./opts";
+import { callStarboardPython } from "./pythonPackage";
+import { deleteNamespaceInWorker, listNamespacesInWorker } from "./workerClient";
+
+/**
+ * Namespaces give independent Python contexts their own globals within one interpreter, such as two notebooks that
+ * are embedded on the same page. Code runs in a namespace when `runStarboardPython` is given its id, a cell picks one
+ * with the `namespace` field of its metadata. Code without a namespace shares the globals of `__main__`.
+ * Modules, installed packages and files are shared by all namespaces. See `starboard._namespaces` for the Python side.
+ */
+
+export function getCellNamespace(cell: Cell): string | undefined {
+  return cell.metadata.namespace || undefined;
+}
+
+export function setCellNamespace(cell: Cell, namespace: string | undefined) {
+  if (namespace) {
+    cell.metadata.namespace = namespace;
+  } else {
+    delete cell.metadata.namespace;
+  }
+}
+
+/**
+ * The ids of the namespaces that code ran in so far, the shared globals of `__main__` are not included.
+ */
+export async function listPythonNamespaces(): Promise<string[]> {
+  if (getPyodideLoadingStatus() !== "ready") {
+    return [];
+  }
+
+  const json = getPluginOpts().runInWorker
+    ? await listNamespacesInWorker()
+    : callStarboardPython(window.pyodide, "starboard._namespaces.list_namespaces");
+  return JSON.parse(json);
+}
+
+/**
+ * Drops a namespace with all its globals, waiting for running cells to finish first. The namespace starts out empty
+ * when code runs in it again.
+ */
+export async function deletePythonNamespace(namespace: string) {
+  await withPythonRunLock(
+    async () => {
+      if (getPyodideLoadingStatus() !== "ready") {
+        return;
+      }
+      if (getPluginOpts().runInWorker) {
+        await deleteNamespaceInWorker(namespace);
+      } else {
+        callStarboardPython(window.pyodide, "starboard._namespaces.delete", namespace);
+      }
+    },
+    { label: `Deleting namespace ${namespace}` }
+  );
+
+  if (getInspectedPythonNamespace() === namespace) {
+    setInspectedPythonNamespace(undefined);
+    await refreshPythonVariables();
+  }
+}
@@ -1,5 +1,40 @@
+import type { ArtifactManifest } from "./artifacts";
+import type { PythonReactiveMode } from "./reactive";
+
 export type StarboardPythonPluginOpts = {
   artifactsUrl?: string;
+  /**
+   * Keep the Pyodide artifacts in Cache Storage and load them from there, so they are available offline.
+   * A string is used as the name of the cache. See `prewarmArtifactCache` to fill the cache ahead of time.
+   */
+  artifactCache?: boolean | string;
+  /**
+   * SHA-256 hashes every artifact is checked against before it is used, or the URL of a JSON file containing them.
+   */
+  artifactManifest?: string | ArtifactManifest;
+  /**
+   * Run Pyodide in a dedicated Web Worker so long running Python code doesn't freeze the notebook.
+   */
+  runInWorker?: boolean;
+  /**
+   * URL of the worker script, defaults to the `worker.js` file next to this plugin.
+   */
+  workerUrl?: string;
+  /**
+   * What happens to the cells that use the globals a cell defines when that cell is run again, see `reactive.ts`.
+   * Defaults to "off", it can be changed at runtime with `setPythonReactiveMode`.
+   */
+  reactive?: PythonReactiveMode;
+  /**
+   * An absolute path in Python's virtual filesystem whose files are kept in IndexedDB, so they survive page reloads.
+   * More directories can be persisted at runtime with `persistPythonDirectory`.
+   */
+  persistentDirectory?: string;
+  /**
+   * Save the output of Python cells with the notebook, so it is shown (as stale) when the notebook is opened again.
+   * Defaults to true.
+   */
+  saveOutputs?: boolean;
 };
 
 // Global singleton
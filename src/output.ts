@@ -0,0 +1,224 @@
+import type { Runtime } from "starboard-notebook/dist/src/types";
+import type { Message } from "starboard-notebook/dist/src/console/console";
+import { MimeBundle, renderMimeBundle } from "./mime";
+import { saveConsoleMessage, saveElement, SavedPythonOutput, saveMimeBundle } from "./savedOutputs";
+import { StreamName, StreamOutputElement } from "./stream";
+
+type ConsoleOutputElement = InstanceType<Runtime["exports"]["elements"]["ConsoleOutputElement"]>;
+
+// Elements and streams can still change after they were added, they are saved when the outputs are.
+type RecordedOutput = SavedPythonOutput | { element: HTMLElement } | { stream: StreamOutputElement };
+
+let lastOutputId = 0;
+const cellOutputs = new Map<number, PythonCellOutput>();
+// Only the latest output of a cell is kept around, output for the earlier runs of it has nowhere to go anymore.
+const outputIdByElement = new WeakMap<HTMLElement, number>();
+
+/**
+ * Writes text to `sys.stdout` or `sys.stderr` of a cell run, identified by the `id` of its output.
+ * Output of runs that are no longer shown goes to the browser console instead.
+ */
+export function writeToCellOutput(outputId: number, name: StreamName, text: string) {
+  const output = getShownCellOutput(outputId);
+  if (output) {
+    output.appendStream(name, text);
+    return;
+  }
+
+  if (name === "stderr") {
+    console.error(text);
+  } else {
+    console.log(text);
+  }
+}
+
+function getShownCellOutput(outputId: number) {
+  const output = cellOutputs.get(outputId);
+  if (output && output.isShown()) {
+    return output;
+  }
+  cellOutputs.delete(outputId);
+  return undefined;
+}
+
+/**
+ * Appends an element to the output of a cell run, returns false if that output is no longer shown.
+ */
+export function appendToCellOutput(outputId: number, el: HTMLElement) {
+  const output = getShownCellOutput(outputId);
+  output?.appendElement(el);
+  return output !== undefined;
+}
+
+/**
+ * Shows a mime bundle in the output of a cell run, unlike `display()` this works after the run has finished.
+ */
+export function displayInCellOutput(outputId: number, bundle: MimeBundle) {
+  const output = getShownCellOutput(outputId);
+  if (output) {
+    output.appendMimeBundle(bundle).catch((e) => console.error("Could not show the displayed output:", e));
+  } else {
+    console.log("Output for a cell that is no longer shown, it will be dropped.");
+  }
+}
+
+export function clearCellOutput(outputId: number, wait: boolean) {
+  getShownCellOutput(outputId)?.clear(wait);
+}
+
+/**
+ * The output of a Python cell run. Console entries and rich outputs are shown in the order they were produced,
+ * consecutive console entries are grouped into one console output element.
+ */
+export class PythonCellOutput {
+  /**
+   * Identifies this output to the Python side, which routes the cell's stdout and stderr to it.
+   */
+  readonly id: number;
+  private runtime: Runtime;
+  private container: HTMLElement;
+  private currentConsoleElement?: ConsoleOutputElement;
+  private currentStream?: StreamOutputElement;
+  private clearOnNextOutput = false;
+  private recorded: RecordedOutput[] = [];
+
+  /**
+   * Called whenever output is added or cleared, see `getSavedOutputs`.
+   */
+  onChange?: () => void;
+
+  private consoleHook = (msg: Message) => this.addEntry(msg);
+
+  constructor(runtime: Runtime, renderOutputIntoElement: HTMLElement) {
+    this.runtime = runtime;
+    this.container = document.createElement("div");
+    this.container.className = "starboard-python-output";
+
+    const lit = runtime.exports.libraries.lit;
+    lit.render(lit.html`${this.container}`, renderOutputIntoElement);
+
+    this.id = ++lastOutputId;
+    const previousId = outputIdByElement.get(renderOutputIntoElement);
+    if (previousId !== undefined) {
+      cellOutputs.delete(previousId);
+    }
+    outputIdByElement.set(renderOutputIntoElement, this.id);
+    cellOutputs.set(this.id, this);
+  }
+
+  isShown() {
+    return this.container.isConnected;
+  }
+
+  /**
+   * Captures console output of Javascript code the cell calls into this output.
+   */
+  hook() {
+    this.runtime.consoleCatcher.hook(this.consoleHook);
+  }
+
+  async unhookAfterOneTick() {
+    await new Promise((resolve) => setTimeout(resolve));
+    this.runtime.consoleCatcher.unhook(this.consoleHook);
+  }
+
+  /**
+   * The outputs so far in the format they are saved with the notebook in, see `savedOutputs.ts`.
+   */
+  getSavedOutputs(): SavedPythonOutput[] {
+    return this.recorded.map((output) => {
+      if ("element" in output) {
+        return saveElement(output.element);
+      } else if ("stream" in output) {
+        return { output_type: "stream", name: output.stream.name, text: output.stream.element.textContent || "" };
+      }
+      return output;
+    });
+  }
+
+  private record(output: RecordedOutput) {
+    this.recorded.push(output);
+    this.onChange?.();
+  }
+
+  addEntry(msg: Message) {
+    this.clearIfPending();
+    this.currentStream = undefined;
+    if (!this.currentConsoleElement) {
+      this.currentConsoleElement = new this.runtime.exports.elements.ConsoleOutputElement();
+      this.container.appendChild(this.currentConsoleElement);
+    }
+    this.currentConsoleElement.addEntry(msg);
+    this.record(saveConsoleMessage(msg));
+  }
+
+  /**
+   * Without a saved form the element is saved as HTML.
+   */
+  appendElement(el: HTMLElement, saved?: SavedPythonOutput) {
+    this.insertElement(el);
+    this.record(saved ?? { element: el });
+  }
+
+  private insertElement(el: HTMLElement) {
+    this.clearIfPending();
+    this.container.appendChild(el);
+    // Console entries and streamed text that come after this element go below it.
+    this.currentConsoleElement = undefined;
+    this.currentStream = undefined;
+  }
+
+  /**
+   * Appends text written to `sys.stdout` or `sys.stderr`, consecutive writes to the same stream are shown together.
+   */
+  appendStream(name: StreamName, text: string) {
+    this.clearIfPending();
+    if (!this.currentStream || this.currentStream.name !== name) {
+      const stream = new StreamOutputElement(name);
+      this.insertElement(stream.element);
+      this.recorded.push({ stream });
+      this.currentStream = stream;
+    }
+    this.currentStream.write(text);
+    this.onChange?.();
+  }
+
+  /**
+   * Rendering can be asynchronous, a placeholder keeps the output in the position it was produced in.
+   * The result of the cell is saved as such, as opposed to output it displays.
+   */
+  async appendMimeBundle(bundle: MimeBundle, isResult = false) {
+    const placeholder = document.createElement("div");
+    this.insertElement(placeholder);
+    this.record(saveMimeBundle(bundle, isResult));
+
+    const el = await renderMimeBundle(this.runtime, bundle);
+    if (el) {
+      placeholder.replaceWith(el);
+    } else {
+      placeholder.remove();
+    }
+  }
+
+  /**
+   * Removes all output, if `wait` is true this only happens once new output arrives (which prevents flickering).
+   */
+  clear(wait = false) {
+    if (wait) {
+      this.clearOnNextOutput = true;
+      return;
+    }
+    this.clearOnNextOutput = false;
+    this.container.textContent = "";
+    this.currentConsoleElement = undefined;
+    this.currentStream = undefined;
+    this.recorded = [];
+    this.onChange?.();
+  }
+
+  private clearIfPending() {
+    if (this.clearOnNextOutput) {
+      this.clear();
+    }
+  }
+}
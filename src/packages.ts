@@ -0,0 +1,155 @@
+import { getPyodideLoadingStatus, loadPyodide, subscribeToPyodideLoadingStatus } from "./global";
+import { withPythonRunLock } from "./lock";
+import { startsWithNonPythonCellMagic } from "./magics";
+import { getPluginOpts } from "./opts";
+import { callStarboardPythonAsync } from "./pythonPackage";
+import { getLoadedPackagesInWorker, installPackagesInWorker } from "./workerClient";
+
+/**
+ * Explicit package installation with micropip, and the state shown in the package manager panel.
+ */
+
+export type PackageInstallStatus = "installing" | "installed" | "error";
+
+export interface PackageInstallProgress {
+  name: string;
+  status: PackageInstallStatus;
+  /**
+   * The reason the installation failed.
+   */
+  message?: string;
+}
+
+export interface InstallPackagesOptions {
+  onProgress?: (progress: PackageInstallProgress) => void;
+}
+
+export interface LoadedPackage {
+  name: string;
+  /**
+   * Where the package was loaded from, "default channel" for packages of the Pyodide distribution.
+   */
+  source: string;
+}
+
+let loadedPackages: LoadedPackage[] = [];
+const installProgress = new Map<string, PackageInstallProgress>();
+const packageListeners = new Set<() => void>();
+
+function notifyPackageListeners() {
+  packageListeners.forEach((listener) => listener());
+}
+
+export function subscribeToPackages(listener: () => void) {
+  packageListeners.add(listener);
+}
+
+export function unsubscribeFromPackages(listener: () => void) {
+  packageListeners.delete(listener);
+}
+
+/**
+ * Packages that were loaded from the Pyodide distribution, as of the last refresh.
+ */
+export function getLoadedPackages() {
+  return loadedPackages;
+}
+
+/**
+ * Packages that were explicitly installed (or attempted to), in the order they were first requested.
+ */
+export function getPackageInstallProgress() {
+  return Array.from(installProgress.values());
+}
+
+/**
+ * Updates the list of loaded packages, packages get loaded implicitly when a cell imports them.
+ */
+export async function refreshLoadedPackages() {
+  if (getPyodideLoadingStatus() !== "ready") {
+    return;
+  }
+
+  let packages: Record<string, string>;
+  try {
+    packages = getPluginOpts().runInWorker ? await getLoadedPackagesInWorker() : { ...window.pyodide.loadedPackages };
+  } catch (e) {
+    // The worker was terminated by a restart in the meantime, the list gets refreshed once it is loaded again.
+    return;
+  }
+  loadedPackages = Object.entries(packages).map(([name, source]) => ({ name, source }));
+  notifyPackageListeners();
+}
+
+subscribeToPyodideLoadingStatus((status) => {
+  if (status === "ready") {
+    refreshLoadedPackages();
+  } else if (status === "unstarted") {
+    // The interpreter was thrown away, and everything that was installed into it with it.
+    loadedPackages = [];
+    installProgress.clear();
+    notifyPackageListeners();
+  }
+});
+
+/**
+ * Like `installPackages`, for use while the Python run lock is already held (such as for `%pip` in a cell).
+ */
+export async function installPackagesWhileLocked(names: string[], opts: InstallPackagesOptions = {}) {
+  const onProgress = (progress: PackageInstallProgress) => {
+    installProgress.set(progress.name, progress);
+    notifyPackageListeners();
+    opts.onProgress?.(progress);
+  };
+
+  let errorsJson: string;
+  if (getPluginOpts().runInWorker) {
+    errorsJson = await installPackagesInWorker(names, onProgress);
+  } else {
+    (window.pyodide as any).packageHelpers = {
+      progress: (name: string, status: PackageInstallStatus, message: string) =>
+        onProgress({ name, status, message: message || undefined }),
+    };
+    errorsJson = await callStarboardPythonAsync(window.pyodide, "starboard._packages.install", names);
+  }
+  await refreshLoadedPackages();
+
+  const errors: Record<string, string> = JSON.parse(errorsJson);
+  const failed = Object.keys(errors);
+  if (failed.length > 0) {
+    throw new Error(`Could not install ${failed.join(", ")}: ${failed.map((name) => errors[name]).join("; ")}`);
+  }
+}
+
+/**
+ * Installs packages with micropip. Packages of the Pyodide distribution are loaded from there, others have to be
+ * pure Python wheels on PyPI. Throws if any of them could not be installed.
+ */
+export async function installPackages(names: string[], opts: InstallPackagesOptions = {}) {
+  await loadPyodide();
+  await withPythonRunLock(() => installPackagesWhileLocked(names, opts), { label: "Installing packages" });
+}
+
+const PIP_INSTALL_REGEX = /^\s*%pip\s+install\s+(.*)$/;
+
+/**
+ * Takes the `%pip install <packages>` lines out of a cell's code. They are replaced by empty lines, so line numbers
+ * in tracebacks still match the cell. The body of a cell magic such as `%%html` isn't Python, its lines are left alone.
+ */
+export function extractPipInstalls(code: string): { code: string; packages: string[] } {
+  if (startsWithNonPythonCellMagic(code)) {
+    return { code, packages: [] };
+  }
+
+  const packages: string[] = [];
+  const lines = code.split("\n").map((line) => {
+    const match = PIP_INSTALL_REGEX.exec(line);
+    if (!match) {
+      return line;
+    }
+    // Options such as `-q` don't apply to micropip.
+    packages.push(...match[1].split(/\s+/).filter((arg) => arg !== "" && !arg.startsWith("-")));
+    return "";
+  });
+  return { code: lines.join("\n"), packages };
+}
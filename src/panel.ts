@@ -0,0 +1,492 @@
+import type { Runtime } from "starboard-notebook/dist/src/types";
+import { getPyodideLoadingError, getPyodideLoadingStatus, subscribeToPyodideLoadingStatus } from "./global";
+import { getPluginOpts } from "./opts";
+import {
+  deletePythonVariable,
+  getInspectedPythonNamespace,
+  getPythonVariables,
+  inspectPythonVariable,
+  PythonVariable,
+  PythonVariableDetails,
+  subscribeToPythonVariables,
+} from "./inspector";
+import {
+  browsePythonDirectory,
+  deletePythonFile,
+  downloadPythonFile,
+  getBrowsedPythonDirectory,
+  getBrowsedPythonFiles,
+  getPersistentPythonDirectories,
+  persistPythonDirectory,
+  subscribeToPythonFiles,
+  uploadPythonFiles,
+} from "./files";
+import { getLiveProxyCounts, subscribeToLiveProxies } from "./proxies";
+import { getLoadedPackages, getPackageInstallProgress, installPackages, subscribeToPackages } from "./packages";
+import {
+  getPythonReactiveMode,
+  PythonReactiveMode,
+  setPythonReactiveMode,
+  subscribeToPythonReactivity,
+} from "./reactive";
+import { restartPython } from "./restart";
+
+/**
+ * Notebook-level panel with controls for the Python interpreter, it is shown above the notebook once Python is used.
+ */
+
+let panelElement: HTMLElement | undefined = undefined;
+let panelRuntime: Runtime | undefined = undefined;
+let isRestarting = false;
+// Why the last restart failed, until the next one.
+let restartError: string | undefined = undefined;
+// The variable (or value within it) that is drilled down into in the variable inspector.
+let inspected: { name: string; path: number[]; details?: PythonVariableDetails } | undefined = undefined;
+
+// Files are being dragged over the file browser.
+let isDraggingFiles = false;
+// The last file operation of the file browser that failed.
+let fileError: string | undefined = undefined;
+
+const REACTIVE_MODE_LABELS: [PythonReactiveMode, string][] = [
+  ["off", "are left alone"],
+  ["mark-stale", "are marked stale"],
+  ["auto-run", "run again"],
+];
+
+async function restart(resetGlobalsOnly: boolean) {
+  const question = resetGlobalsOnly
+    ? "Reset all Python variables? Imported modules will stay loaded."
+    : "Restart Python? All variables and imported modules will be lost.";
+  if (!confirm(question)) {
+    return;
+  }
+
+  isRestarting = true;
+  restartError = undefined;
+  renderPythonPanel();
+  try {
+    await restartPython({ resetGlobalsOnly });
+  } catch (e) {
+    restartError = `${resetGlobalsOnly ? "resetting globals" : "restart"} failed: ${e.message}`;
+  } finally {
+    isRestarting = false;
+    renderPythonPanel();
+  }
+}
+
+async function installFromInput(e: Event) {
+  e.preventDefault();
+  const input = (e.target as HTMLFormElement).querySelector("input")!;
+  const names = input.value.split(/[\s,]+/).filter((name) => name !== "");
+  if (names.length === 0) {
+    return;
+  }
+  input.value = "";
+  try {
+    await installPackages(names);
+  } catch (e) {
+    // The failure is shown next to the package.
+  }
+}
+
+function renderPackages(html: Runtime["exports"]["libraries"]["lit"]["html"]) {
+  const installs = getPackageInstallProgress();
+  const installedNames = new Set(installs.map((p) => p.name));
+  // Packages installed through micropip are in this list as well when they are part of the Pyodide distribution.
+  const loaded = getLoadedPackages().filter((p) => !installedNames.has(p.name));
+
+  return html`<details class="starboard-python-packages">
+    <summary>Packages (${installs.length + loaded.length})</summary>
+    <form class="starboard-python-packages-install" @submit=${installFromInput}>
+      <input type="text" placeholder="Package names, e.g. numpy requests" aria-label="Packages to install" />
+      <button class="starboard-python-panel-button" type="submit"><span class="bi bi-download"></span> Install</button>
+    </form>
+    <ul class="starboard-python-packages-list">
+      ${installs.map(
+        (p) => html`<li>
+          <span class="starboard-python-package-name">${p.name}</span>
+          <span
+            class="starboard-python-package-status starboard-python-package-status-${p.status}"
+            title=${p.message || ""}
+            >${p.status === "error" ? `error: ${p.message}` : p.status}</span
+          >
+        </li>`
+      )}
+      ${loaded.map(
+        (p) => html`<li>
+          <span class="starboard-python-package-name">${p.name}</span>
+          <span class="starboard-python-package-source">${p.source}</span>
+        </li>`
+      )}
+    </ul>
+  </details>`;
+}
+
+async function inspect(name: string, path: number[]) {
+  // The previous details stay visible while the new ones load.
+  const target: typeof inspected = { name, path, details: inspected?.details };
+  inspected = target;
+  const details = await inspectPythonVariable(name, path);
+  // Another value may have been picked while this one was loading.
+  if (inspected === target) {
+    inspected = details ? { name, path, details } : undefined;
+    renderPythonPanel();
+  }
+}
+
+function closeInspected() {
+  inspected = undefined;
+  renderPythonPanel();
+}
+
+function linkHandler(fn: () => void) {
+  return (e: Event) => {
+    e.preventDefault();
+    fn();
+  };
+}
+
+async function deleteVariable(name: string) {
+  if (inspected?.name === name) {
+    inspected = undefined;
+  }
+  await deletePythonVariable(name);
+}
+
+function formatBytes(bytes: number | null) {
+  if (bytes === null) {
+    return "";
+  }
+  const units = ["B", "KB", "MB", "GB"];
+  let unit = 0;
+  while (bytes >= 1024 && unit < units.length - 1) {
+    bytes /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? bytes : bytes.toFixed(1)} ${units[unit]}`;
+}
+
+function renderVariableRow(
+  html: Runtime["exports"]["libraries"]["lit"]["html"],
+  variable: PythonVariable,
+  onExpand: () => void,
+  onDelete?: () => void
+) {
+  return html`<tr>
+    <td class="starboard-python-variable-name">
+      ${variable.expandable
+        ? html`<a href="#" title="Show the contents" @click=${linkHandler(onExpand)}>${variable.name}</a>`
+        : variable.name}
+    </td>
+    <td>${variable.type}</td>
+    <td>${variable.shape ? variable.shape.join(" × ") : ""}</td>
+    <td>${formatBytes(variable.size)}</td>
+    <td class="starboard-python-variable-repr" title=${variable.repr}>${variable.repr}</td>
+    <td>
+      ${onDelete
+        ? html`<button class="starboard-python-panel-button" title="Delete this variable" @click=${onDelete}>
+            <span class="bi bi-trash"></span>
+          </button>`
+        : ""}
+    </td>
+  </tr>`;
+}
+
+function renderVariableDetails(html: Runtime["exports"]["libraries"]["lit"]["html"]) {
+  if (!inspected?.details) {
+    return html``;
+  }
+
+  const name = inspected.name;
+  const path = inspected.path;
+  const details = inspected.details;
+  return html`<div class="starboard-python-variable-details">
+    <div class="starboard-python-variable-breadcrumbs">
+      ${details.path.map((label, i) =>
+        i === details.path.length - 1
+          ? html`<span>${label}</span>`
+          : html`<a href="#" @click=${linkHandler(() => inspect(name, path.slice(0, i)))}>${label}</a>
+              / `
+      )}
+      <button class="starboard-python-panel-button" title="Close" @click=${closeInspected}>
+        <span class="bi bi-x"></span>
+      </button>
+    </div>
+    ${details.preview !== null ? html`<pre class="starboard-python-variable-preview">${details.preview}</pre>` : ""}
+    <table class="starboard-python-variables-table">
+      <tbody>
+        ${details.children.map((child, i) => renderVariableRow(html, child, () => inspect(name, path.concat(i))))}
+      </tbody>
+    </table>
+    ${details.childCount > details.children.length
+      ? html`<div class="starboard-python-variables-more">
+          Showing ${details.children.length} of ${details.childCount}
+        </div>`
+      : ""}
+  </div>`;
+}
+
+function renderVariables(html: Runtime["exports"]["libraries"]["lit"]["html"]) {
+  const variables = getPythonVariables();
+  const namespace = getInspectedPythonNamespace();
+  return html`<details class="starboard-python-variables">
+    <summary>
+      Variables
+      (${variables.length})${namespace
+        ? html` in namespace <span class="starboard-python-namespace">${namespace}</span>`
+        : ""}
+    </summary>
+    <table class="starboard-python-variables-table">
+      <thead>
+        <tr>
+          <th>Name</th>
+          <th>Type</th>
+          <th>Shape</th>
+          <th>Size</th>
+          <th>Value</th>
+          <th></th>
+        </tr>
+      </thead>
+      <tbody>
+        ${variables.map((v) =>
+          renderVariableRow(
+            html,
+            v,
+            () => inspect(v.name, []),
+            () => deleteVariable(v.name)
+          )
+        )}
+      </tbody>
+    </table>
+    ${renderVariableDetails(html)}
+  </details>`;
+}
+
+async function runFileOperation(operation: () => Promise<unknown>) {
+  fileError = undefined;
+  try {
+    await operation();
+  } catch (e) {
+    fileError = e.message;
+  }
+  renderPythonPanel();
+}
+
+function uploadFromInput(e: Event) {
+  const input = e.target as HTMLInputElement;
+  const files = Array.from(input.files || []);
+  input.value = "";
+  runFileOperation(() => uploadPythonFiles(files, getBrowsedPythonDirectory()));
+}
+
+function setDraggingFiles(e: DragEvent, dragging: boolean) {
+  if (!e.dataTransfer?.types.includes("Files")) {
+    return;
+  }
+  e.preventDefault();
+  if (isDraggingFiles !== dragging) {
+    isDraggingFiles = dragging;
+    renderPythonPanel();
+  }
+}
+
+function uploadFromDrop(e: DragEvent) {
+  setDraggingFiles(e, false);
+  const files = e.dataTransfer?.files;
+  if (files && files.length > 0) {
+    runFileOperation(() => uploadPythonFiles(files, getBrowsedPythonDirectory()));
+  }
+}
+
+function deleteFile(path: string) {
+  if (confirm(`Delete ${path}?`)) {
+    runFileOperation(() => deletePythonFile(path));
+  }
+}
+
+function formatDate(milliseconds: number) {
+  return new Date(milliseconds).toLocaleString();
+}
+
+function renderFiles(html: Runtime["exports"]["libraries"]["lit"]["html"]) {
+  const directory = getBrowsedPythonDirectory();
+  const files = getBrowsedPythonFiles();
+  const parts = directory.split("/").filter((part) => part !== "");
+  const isPersistent = getPersistentPythonDirectories().some(
+    (persistent) => directory === persistent || directory.startsWith(persistent.replace(/\/$/, "") + "/")
+  );
+
+  return html`<details
+    class="starboard-python-files ${isDraggingFiles ? "starboard-python-files-dragging" : ""}"
+    @dragover=${(e: DragEvent) => setDraggingFiles(e, true)}
+    @dragleave=${(e: DragEvent) =>
+      // Moving over the elements inside the file browser leaves the element the handler is on as well.
+      !(e.currentTarget as HTMLElement).contains(e.relatedTarget as Node) && setDraggingFiles(e, false)}
+    @drop=${uploadFromDrop}
+  >
+    <summary>Files (${files.length})</summary>
+    <div class="starboard-python-files-toolbar">
+      <span class="starboard-python-variable-breadcrumbs">
+        <a href="#" @click=${linkHandler(() => browsePythonDirectory("/"))}>/</a>
+        ${parts.map((part, i) =>
+          i === parts.length - 1
+            ? html`<span>${part}</span>`
+            : html`<a href="#" @click=${linkHandler(() => browsePythonDirectory("/" + parts.slice(0, i + 1).join("/")))}
+                  >${part}</a
+                >
+                / `
+        )}
+      </span>
+      <label class="starboard-python-panel-button" title="Upload files into this directory">
+        <span class="bi bi-upload"></span> Upload
+        <input type="file" multiple hidden @change=${uploadFromInput} />
+      </label>
+      ${isPersistent
+        ? html`<span class="starboard-python-files-persistent" title="The files in this directory survive page reloads">
+            <span class="bi bi-hdd"></span> Persisted
+          </span>`
+        : html`<button
+            class="starboard-python-panel-button"
+            title="Keep the files in this directory across page reloads"
+            @click=${() => runFileOperation(() => persistPythonDirectory(directory))}
+          >
+            <span class="bi bi-hdd"></span> Persist
+          </button>`}
+    </div>
+    ${fileError ? html`<div class="starboard-python-files-error">${fileError}</div>` : ""}
+    <table class="starboard-python-variables-table">
+      <tbody>
+        ${files.map(
+          (file) => html`<tr>
+            <td class="starboard-python-variable-name">
+              ${file.isDirectory
+                ? html`<a href="#" @click=${linkHandler(() => browsePythonDirectory(file.path))}>${file.name}/</a>`
+                : file.name}
+            </td>
+            <td>${file.isDirectory ? "" : formatBytes(file.size)}</td>
+            <td>${formatDate(file.modified)}</td>
+            <td>
+              ${file.isDirectory
+                ? ""
+                : html`<button
+                    class="starboard-python-panel-button"
+                    title="Download this file"
+                    @click=${() => runFileOperation(() => downloadPythonFile(file.path))}
+                  >
+                    <span class="bi bi-download"></span>
+                  </button>`}
+              <button class="starboard-python-panel-button" title="Delete" @click=${() => deleteFile(file.path)}>
+                <span class="bi bi-trash"></span>
+              </button>
+            </td>
+          </tr>`
+        )}
+      </tbody>
+    </table>
+    <div class="starboard-python-files-hint">Drop files here to upload them to ${directory}</div>
+  </details>`;
+}
+
+function renderLiveProxies(html: Runtime["exports"]["libraries"]["lit"]["html"]) {
+  // Results of a worker never reach the main thread as proxies.
+  if (getPluginOpts().runInWorker) {
+    return html``;
+  }
+
+  const counts = getLiveProxyCounts();
+  const total = counts.reduce((sum, c) => sum + c.count, 0);
+  return html`<details class="starboard-python-proxies">
+    <summary>Live PyProxies (${total})</summary>
+    <ul class="starboard-python-proxies-list">
+      ${counts.map(
+        (c) => html`<li>
+          <span class="starboard-python-proxies-cell">${c.label || "(unnamed cell)"}</span>
+          <span class="starboard-python-proxies-count">${c.count}</span>
+        </li>`
+      )}
+    </ul>
+  </details>`;
+}
+
+export function mountPythonPanel(runtime: Runtime) {
+  if (panelElement) {
+    return;
+  }
+
+  panelRuntime = runtime;
+  panelElement = document.createElement("div");
+  panelElement.className = "starboard-python-panel";
+
+  const notebook = runtime.dom.notebook;
+  notebook.parentElement!.insertBefore(panelElement, notebook);
+
+  subscribeToPyodideLoadingStatus(() => renderPythonPanel());
+  subscribeToPackages(() => renderPythonPanel());
+  subscribeToLiveProxies(() => renderPythonPanel());
+  subscribeToPythonReactivity(() => renderPythonPanel());
+  subscribeToPythonFiles(() => renderPythonPanel());
+  subscribeToPythonVariables(() => {
+    // Show the new state of the value that is drilled down into, if it still exists.
+    if (inspected) {
+      inspect(inspected.name, inspected.path);
+    }
+    renderPythonPanel();
+  });
+  renderPythonPanel();
+}
+
+export function renderPythonPanel() {
+  if (!panelElement || !panelRuntime) {
+    return;
+  }
+
+  const lit = panelRuntime.exports.libraries.lit;
+  const html = lit.html;
+
+  const status = isRestarting ? "restarting" : getPyodideLoadingStatus();
+  const canRestart = !isRestarting && status !== "loading";
+  const error = isRestarting ? undefined : restartError ?? getPyodideLoadingError()?.message;
+  const statusText = error ? `${status} (${error})` : status;
+
+  lit.render(
+    html`<div class="starboard-python-panel-header">
+        <span class="starboard-python-panel-title">Python</span>
+        <span class="starboard-python-kernel-status starboard-python-kernel-status-${status}">${statusText}</span>
+        <button
+          class="starboard-python-panel-button"
+          title="Restore the Python variables to their initial state"
+          ?disabled=${!canRestart}
+          @click=${() => restart(true)}
+        >
+          <span class="bi bi-eraser"></span> Reset globals
+        </button>
+        <button
+          class="starboard-python-panel-button"
+          title="Boot a fresh Python interpreter"
+          ?disabled=${!canRestart}
+          @click=${() => restart(false)}
+        >
+          <span class="bi bi-arrow-clockwise"></span> Restart
+        </button>
+        <label
+          class="starboard-python-reactive-mode"
+          title="What happens to the cells that use the globals of a cell that is run again"
+        >
+          Dependent cells
+          <select
+            @change=${(e: Event) => setPythonReactiveMode((e.target as HTMLSelectElement).value as PythonReactiveMode)}
+          >
+            ${REACTIVE_MODE_LABELS.map(
+              (option) =>
+                html`<option value=${option[0]} .selected=${option[0] === getPythonReactiveMode()}>
+                  ${option[1]}
+                </option>`
+            )}
+          </select>
+        </label>
+      </div>
+      ${renderVariables(html)} ${renderFiles(html)} ${renderPackages(html)} ${renderLiveProxies(html)}`,
+    panelElement
+  );
+}
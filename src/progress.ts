@@ -0,0 +1,60 @@
+/**
+ * Progress of loading Pyodide and its packages, reported by the loader (see `pyodide.ts` and `artifacts.ts`).
+ */
+
+/**
+ * After the "ready" stage nothing is being loaded anymore, until packages are loaded.
+ */
+export type PyodideLoadingStage = "downloading" | "instantiating" | "initializing" | "loadingPackage" | "ready";
+
+export interface PyodideLoadingProgress {
+  stage: PyodideLoadingStage;
+  /**
+   * The file that is being downloaded, or the package that is being loaded.
+   */
+  name?: string;
+  loadedBytes?: number;
+  /**
+   * Not known when the server doesn't tell us the size, or the download is compressed.
+   */
+  totalBytes?: number;
+}
+
+const progressListeners = new Set<(progress: PyodideLoadingProgress) => void>();
+
+export function emitPyodideLoadingProgress(progress: PyodideLoadingProgress) {
+  progressListeners.forEach((listener) => listener(progress));
+}
+
+export function subscribeToPyodideLoadingProgress(listener: (progress: PyodideLoadingProgress) => void) {
+  progressListeners.add(listener);
+}
+
+export function unsubscribeFromPyodideLoadingProgress(listener: (progress: PyodideLoadingProgress) => void) {
+  progressListeners.delete(listener);
+}
+
+function formatMegabytes(bytes: number) {
+  return (bytes / 1024 / 1024).toFixed(1);
+}
+
+export function formatPyodideLoadingProgress(progress: PyodideLoadingProgress) {
+  switch (progress.stage) {
+    case "downloading": {
+      const loaded = progress.loadedBytes ?? 0;
+      const size =
+        progress.totalBytes !== undefined
+          ? `${formatMegabytes(loaded)} / ${formatMegabytes(progress.totalBytes)} MB`
+          : `${formatMegabytes(loaded)} MB`;
+      return `Downloading ${progress.name} (${size})`;
+    }
+    case "instantiating":
+      return "Compiling the Python interpreter";
+    case "initializing":
+      return "Starting Python";
+    case "loadingPackage":
+      return `Loading package ${progress.name}`;
+    case "ready":
+      return "Ready";
+  }
+}
@@ -0,0 +1,91 @@
+import { subscribeToPyodideLoadingStatus } from "./global";
+
+/**
+ * Lifetime management of the PyProxies that cells return. A proxy keeps its Python object (and the wasm memory it
+ * uses) alive until it is destroyed, so the proxies a cell owns are destroyed once its output goes away: when the
+ * cell is run again, cleared or removed.
+ * This only applies on the main thread, results of a worker are converted to plain values in the worker.
+ */
+
+interface CellProxies {
+  /**
+   * Shown in the debug view, usually the id of the cell.
+   */
+  label: string;
+  proxies: Set<any>;
+}
+
+// Keyed by the element the cell's output is rendered into.
+const cellProxies = new Map<HTMLElement, CellProxies>();
+const proxyListeners = new Set<() => void>();
+
+function notifyProxyListeners() {
+  proxyListeners.forEach((listener) => listener());
+}
+
+export function subscribeToLiveProxies(listener: () => void) {
+  proxyListeners.add(listener);
+}
+
+export function unsubscribeFromLiveProxies(listener: () => void) {
+  proxyListeners.delete(listener);
+}
+
+export function trackCellProxy(owner: HTMLElement, label: string, proxy: any) {
+  let entry = cellProxies.get(owner);
+  if (!entry) {
+    entry = { label, proxies: new Set() };
+    cellProxies.set(owner, entry);
+  }
+  entry.label = label;
+  entry.proxies.add(proxy);
+  notifyProxyListeners();
+}
+
+/**
+ * Destroys the proxies owned by the cell that renders its output into the given element.
+ */
+export function destroyCellProxies(owner: HTMLElement) {
+  const entry = cellProxies.get(owner);
+  if (!entry) {
+    return;
+  }
+
+  cellProxies.delete(owner);
+  for (const proxy of entry.proxies) {
+    try {
+      proxy.destroy();
+    } catch (e) {
+      // It was destroyed by the user already.
+    }
+  }
+  notifyProxyListeners();
+}
+
+/**
+ * Takes a proxy out of automatic lifetime management, it stays alive until you call `destroy()` on it yourself.
+ */
+export function keepPyProxyAlive<T>(proxy: T): T {
+  for (const entry of cellProxies.values()) {
+    entry.proxies.delete(proxy);
+  }
+  notifyProxyListeners();
+  return proxy;
+}
+
+/**
+ * The number of live proxies each cell holds, cells without any are left out.
+ */
+export function getLiveProxyCounts(): { label: string; count: number }[] {
+  return Array.from(cellProxies.values())
+    .filter((entry) => entry.proxies.size > 0)
+    .map((entry) => ({ label: entry.label, count: entry.proxies.size }));
+}
+
+subscribeToPyodideLoadingStatus((status) => {
+  // The interpreter the proxies belong to was thrown away, there is nothing left to destroy.
+  if (status === "unstarted" && cellProxies.size > 0) {
+    cellProxies.clear();
+    notifyProxyListeners();
+  }
+});
@@ -77,6 +77,30 @@ import { patchMatplotlib } from "./matplotlib";
      throw new Error("Cannot determine runtime environment");
    }
  
+   // Added for starboard-python: lets the plugin download the artifacts itself, to report progress, serve them from
+   // its own cache and check their integrity.
+   // `locateFile` is synchronous, so the artifacts it locates are resolved before the scripts that use it are loaded.
+   const resolvedArtifactUrls = new Map();
+   async function resolveArtifactUrl(url) {
+     if (!config.resolveArtifactUrl) {
+       return url;
+     }
+     if (!resolvedArtifactUrls.has(url)) {
+       resolvedArtifactUrls.set(url, await config.resolveArtifactUrl(url));
+     }
+     return resolvedArtifactUrls.get(url);
+   }
+   const locateResolvedArtifact = (url) => resolvedArtifactUrls.get(url) || url;
+   // Added for starboard-python: the resolved URLs (such as object URLs of downloaded artifacts) are released once
+   // the artifacts are loaded.
+   function releaseResolvedArtifacts() {
+     if (config.releaseArtifactUrl) {
+       resolvedArtifactUrls.forEach((resolved) => config.releaseArtifactUrl(resolved));
+     }
+     resolvedArtifactUrls.clear();
+   }
+   const reportProgress = (progress) => config.onProgress && config.onProgress(progress);
+
    function recursiveDependencies(names, _messageCallback, errorCallback,
                                   sharedLibsOnly) {
      const packages = Module.packages.dependencies;
@@ -132,7 +156,7 @@ import { patchMatplotlib } from "./matplotlib";
  
      // locateFile is the function used by the .js file to locate the .data
      // file given the filename
-     Module.locateFile = (path) => {
+     const locatePackageFile = (path) => {
        // handle packages loaded from custom URLs
        let pkg = path.replace(/\.data$/, "");
        if (toLoad.has(pkg)) {
@@ -143,6 +167,7 @@ import { patchMatplotlib } from "./matplotlib";
        };
        return baseURL + path;
      };
+     Module.locateFile = (path) => locateResolvedArtifact(locatePackageFile(path));
  
      if (toLoad.size === 0) {
        return Promise.resolve('No new packages to load');
@@ -151,6 +176,19 @@ import { patchMatplotlib } from "./matplotlib";
        messageCallback(`Loading ${packageNames}`);
      }
  
+     // Added for starboard-python: errors resolving an artifact (such as an integrity mismatch) fail the whole load.
+     try {
+       for (let [pkg, uri] of toLoad) {
+         if (Module.loadedPackages[pkg] === undefined) {
+           await resolveArtifactUrl(uri === DEFAULT_CHANNEL ? `${baseURL}${pkg}.js` : uri);
+           await resolveArtifactUrl(locatePackageFile(`${pkg}.data`));
+         }
+       }
+     } catch (e) {
+       releaseResolvedArtifacts();
+       throw e;
+     }
+
      // If running in main browser thread, try to catch errors thrown when
      // running a script. Since the script is added via a script tag, there is
      // no good way to capture errors from the script only, so try to capture
@@ -199,7 +237,8 @@ import { patchMatplotlib } from "./matplotlib";
        }
        let scriptSrc = uri === DEFAULT_CHANNEL ? `${baseURL}${pkg}.js` : uri;
        messageCallback(`Loading ${pkg} from ${scriptSrc}`);
-       scriptPromises.push(loadScript(scriptSrc).catch(() => {
+       reportProgress({ stage: "loadingPackage", name: pkg });
+       scriptPromises.push(loadScript(locateResolvedArtifact(scriptSrc)).catch(() => {
          errorCallback(`Couldn't load package from URL ${scriptSrc}`);
          toLoad.delete(pkg);
        }));
@@ -232,6 +271,7 @@ import { patchMatplotlib } from "./matplotlib";
      try {
        await Promise.race([ successPromise, windowErrorPromise ]);
      } finally {
+       releaseResolvedArtifacts();
        delete Module.monitorRunDependencies;
        if (windowErrorHandler) {
          self.removeEventListener('error', windowErrorHandler);
@@ -255,6 +295,7 @@ import { patchMatplotlib } from "./matplotlib";
      Module.reportUndefinedSymbols();
  
      messageCallback(resolveMsg);
+     reportProgress({ stage: "ready" });
  
      // We have to invalidate Python's import caches, or it won't
      // see the new files.
@@ -811,21 +852,33 @@ import { patchMatplotlib } from "./matplotlib";
      return !!jsobj && jsobj.$$ !== undefined && jsobj.$$.type === 'PyProxy';
    };
  
-   Module.locateFile = (path) => baseURL + path;
+   Module.locateFile = (path) => locateResolvedArtifact(baseURL + path);
+   await resolveArtifactUrl(`${baseURL}pyodide.asm.wasm`);
+   await resolveArtifactUrl(`${baseURL}pyodide.asm.data`);
+
+   // Backported from later Pyodide versions, used to capture output when running in a worker.
+   if (config.stdout) {
+     Module.print = config.stdout;
+   }
+   if (config.stderr) {
+     Module.printErr = config.stderr;
+   }
  
    let moduleLoaded = new Promise(r => Module.postRun = r);
  
-   const scriptSrc = `${baseURL}pyodide.asm.js`;
+   const scriptSrc = await resolveArtifactUrl(`${baseURL}pyodide.asm.js`);
  
    await loadScript(scriptSrc);
  
    // _createPyodideModule is specified in the Makefile by the linker flag:
    // `-s EXPORT_NAME="'_createPyodideModule'"`
+   reportProgress({ stage: "instantiating" });
    await _createPyodideModule(Module);
  
    // There is some work to be done between the module being "ready" and postRun
    // being called.
    await moduleLoaded;
+   reportProgress({ stage: "initializing" });
  
    // Bootstrap step: `runPython` needs access to `Module.globals` and
    // `Module.pyodide_py`. Use `runPythonSimple` to add these. runPythonSimple
@@ -855,14 +908,16 @@ import { patchMatplotlib } from "./matplotlib";
    // TODO: Should we have this?
    Module.globals = Module.wrapNamespace(Module.globals);
  
-   let response = await fetch(`${baseURL}packages.json`);
+   let response = await fetch(await resolveArtifactUrl(`${baseURL}packages.json`));
    Module.packages = await response.json();
+   releaseResolvedArtifacts();
  
    fixRecursionLimit(Module);
    let pyodide = makePublicAPI(Module, PUBLIC_API);
    Module.registerJsModule("js", globalThis);
    Module.registerJsModule("pyodide_js", pyodide);
    globalThis.pyodide = pyodide;
+   reportProgress({ stage: "ready" });
    return pyodide;
  };
  
@@ -0,0 +1,16 @@
+"""Helpers for Python cells in Starboard Notebook.
+
+This package is bundled with the starboard-python plugin and made importable when Pyodide is loaded.
+"""
+
+import builtins
+
+from . import _stream
+from ._bridge import export, import_
+from ._display import HTML, JSON, SVG, Image, Latex, Markdown, clear_output, display
+from ._matplotlib import set_format as set_matplotlib_format
+
+_stream.install()
+
+# Like in Jupyter, `display` can be used without importing it.
+builtins.display = display
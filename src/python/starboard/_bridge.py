@@ -0,0 +1,157 @@
+"""Sharing variables with Javascript cells.
+
+Values are copied when they cross over, encoded as JSON. Only plain data can be shared: None, booleans, numbers,
+strings, lists, tuples, dicts with string keys, bytes, `array.array` and numpy arrays. Arrays become typed arrays on
+the Javascript side, and typed arrays come back as numpy arrays (or `array.array` if numpy isn't imported).
+No proxies are kept around, so sharing a value can't leak memory.
+"""
+
+import array
+import base64
+import json
+import math
+import sys
+
+# Marks values that don't map onto JSON directly.
+_TAG = "$starboard"
+
+# Typed array type for each numpy dtype (kind and item size) and `array.array` typecode.
+_NUMPY_TYPED_ARRAYS = {
+    ("i", 1): "Int8Array",
+    ("i", 2): "Int16Array",
+    ("i", 4): "Int32Array",
+    ("i", 8): "BigInt64Array",
+    ("u", 1): "Uint8Array",
+    ("u", 2): "Uint16Array",
+    ("u", 4): "Uint32Array",
+    ("u", 8): "BigUint64Array",
+    ("f", 4): "Float32Array",
+    ("f", 8): "Float64Array",
+    ("b", 1): "Uint8Array",
+}
+_TYPED_ARRAY_TYPECODES = {
+    "Int8Array": "b",
+    "Uint8Array": "B",
+    "Uint8ClampedArray": "B",
+    "Int16Array": "h",
+    "Uint16Array": "H",
+    "Int32Array": "i",
+    "Uint32Array": "I",
+    "BigInt64Array": "q",
+    "BigUint64Array": "Q",
+    "Float32Array": "f",
+    "Float64Array": "d",
+}
+_TYPECODE_TYPED_ARRAYS = {
+    "b": "Int8Array",
+    "B": "Uint8Array",
+    "h": "Int16Array",
+    "H": "Uint16Array",
+    "i": "Int32Array",
+    "I": "Uint32Array",
+    "l": "Int32Array",
+    "L": "Uint32Array",
+    "q": "BigInt64Array",
+    "Q": "BigUint64Array",
+    "f": "Float32Array",
+    "d": "Float64Array",
+}
+
+_MISSING = object()
+
+
+def _typed_array(type_name, data, shape=None):
+    encoded = {_TAG: "typedarray", "type": type_name, "data": base64.b64encode(data).decode("ascii")}
+    if shape is not None:
+        encoded["shape"] = list(shape)
+    return encoded
+
+
+def _encode(value):
+    if value is None or isinstance(value, (bool, str)):
+        return value
+    if isinstance(value, int):
+        return value
+    if isinstance(value, float):
+        return value if math.isfinite(value) else {_TAG: "float", "value": repr(value)}
+    if isinstance(value, (list, tuple)):
+        return [_encode(v) for v in value]
+    if isinstance(value, dict):
+        for key in value:
+            if not isinstance(key, str):
+                raise TypeError(f"Only dicts with string keys can be shared with Javascript, got key {key!r}")
+        return {k: _encode(v) for k, v in value.items()}
+    if isinstance(value, (bytes, bytearray)):
+        return _typed_array("Uint8Array", bytes(value))
+    if isinstance(value, array.array):
+        return _typed_array(_TYPECODE_TYPED_ARRAYS[value.typecode], value.tobytes())
+
+    numpy = sys.modules.get("numpy")
+    if numpy is not None:
+        if isinstance(value, numpy.ndarray):
+            type_name = _NUMPY_TYPED_ARRAYS.get((value.dtype.kind, value.dtype.itemsize))
+            if type_name is None:
+                return _encode(value.tolist())
+            # Typed arrays are little endian on all platforms Pyodide runs on.
+            data = numpy.ascontiguousarray(value, dtype=value.dtype.newbyteorder("<")).tobytes()
+            return _typed_array(type_name, data, value.shape if value.ndim != 1 else None)
+        if isinstance(value, numpy.generic):
+            return _encode(value.item())
+
+    raise TypeError(
+        f"Only plain data can be shared with Javascript, got a value of type {type(value).__name__}. "
+        "Supported are None, booleans, numbers, strings, lists, tuples, dicts, bytes and arrays."
+    )
+
+
+def _decode_typed_array(encoded):
+    data = base64.b64decode(encoded["data"])
+    typecode = _TYPED_ARRAY_TYPECODES[encoded["type"]]
+    numpy = sys.modules.get("numpy")
+    if numpy is not None:
+        result = numpy.frombuffer(data, dtype=numpy.dtype(typecode).newbyteorder("<")).copy()
+        return result.reshape(encoded["shape"]) if "shape" in encoded else result
+    result = array.array(typecode)
+    result.frombytes(data)
+    if sys.byteorder != "little":
+        result.byteswap()
+    return result
+
+
+def _decode_tagged(obj):
+    tag = obj.get(_TAG)
+    if tag == "typedarray":
+        return _decode_typed_array(obj)
+    if tag == "float":
+        return float(obj["value"])
+    return obj
+
+
+def encode(value):
+    return json.dumps(_encode(value), allow_nan=False)
+
+
+def decode(encoded):
+    return json.loads(encoded, object_hook=_decode_tagged)
+
+
+def export(name, value):
+    """Makes a copy of the value available to Javascript cells under the given name."""
+    from js import pyodide
+
+    pyodide.bridgeHelpers.set(name, encode(value))
+
+
+def import_(name, default=_MISSING):
+    """Returns a copy of a value that was shared by a Javascript cell (or exported from Python) under the given name.
+
+    Raises a `KeyError` if there is no such value, unless a default is given.
+    """
+    from js import pyodide
+
+    encoded = pyodide.bridgeHelpers.get(name)
+    if encoded is None:
+        if default is _MISSING:
+            raise KeyError(f"No variable named {name!r} was shared")
+        return default
+    return decode(encoded)
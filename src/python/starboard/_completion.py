@@ -0,0 +1,179 @@
+"""Completion, signature help and hover documentation for the cell editor, based on the live namespace.
+
+If `jedi` has been imported it is used for completions, otherwise names are looked up in the namespace directly.
+Expressions are never evaluated, only attribute lookups on names are done (which can still run property getters).
+The attributes offered as completions are classified without looking them up, as that would run every getter.
+"""
+
+import builtins
+import inspect
+import keyword
+import re
+import sys
+
+from ._namespaces import get as get_namespace
+
+# A dotted name (possibly ending in a dot or empty) at the end of the code, such as `np.linalg.no`.
+_NAME_CHAIN_BEFORE_CURSOR = re.compile(r"(?:[A-Za-z_]\w*\s*\.\s*)*(?:[A-Za-z_]\w*)?$")
+_IDENTIFIER_CHARS = re.compile(r"\w")
+
+# Longer docstrings are cut off, the popups have limited space.
+_MAX_DOC_LENGTH = 2000
+
+
+def _resolve(dotted_name, namespace):
+    """Looks up a dotted name like `np.linalg.norm` in the namespace, returns `None` if it doesn't exist."""
+    parts = [part.strip() for part in dotted_name.split(".")]
+    if parts[0] in namespace:
+        obj = namespace[parts[0]]
+    elif hasattr(builtins, parts[0]):
+        obj = getattr(builtins, parts[0])
+    else:
+        return None
+
+    for part in parts[1:]:
+        try:
+            obj = getattr(obj, part)
+        except Exception:
+            return None
+    return obj
+
+
+def _kind(obj):
+    if inspect.ismodule(obj):
+        return "module"
+    if inspect.isclass(obj):
+        return "class"
+    if callable(obj):
+        return "function"
+    return "variable"
+
+
+def _attribute_kind(obj, name):
+    """The kind of an attribute of the object, found without running property getters or `__getattr__`."""
+    try:
+        value = inspect.getattr_static(obj, name)
+        if isinstance(value, (staticmethod, classmethod)):
+            value = value.__func__
+        return _kind(value)
+    except Exception:
+        # Such as attributes that `__dir__` lists but that only `__getattr__` provides.
+        return "variable"
+
+
+def _signature(name, obj):
+    try:
+        return f"{name}{inspect.signature(obj)}"
+    except (TypeError, ValueError):
+        return None
+
+
+def _doc(obj):
+    doc = inspect.getdoc(obj)
+    if doc and len(doc) > _MAX_DOC_LENGTH:
+        doc = doc[:_MAX_DOC_LENGTH] + "..."
+    return doc
+
+
+def _line_and_column(code, offset):
+    before = code[:offset]
+    line = before.count("\n") + 1
+    return line, offset - (before.rfind("\n") + 1)
+
+
+def _complete_with_jedi(jedi, code, offset, namespace):
+    line, column = _line_and_column(code, offset)
+    completions = jedi.Interpreter(code, [namespace]).complete(line, column)
+    prefix_length = completions[0].get_completion_prefix_length() if completions else 0
+    items = [{"label": c.name, "type": c.type} for c in completions]
+    return {"from": offset - prefix_length, "to": offset, "items": items}
+
+
+def _matching_names(names, prefix):
+    """Private names are only offered once the prefix starts with an underscore."""
+    return [name for name in names if name.startswith(prefix) and (prefix.startswith("_") or not name.startswith("_"))]
+
+
+def complete(code, offset, namespace_id=None):
+    """Completions for the name before `offset`, as a range of the code to replace and the items to choose from."""
+    namespace = get_namespace(namespace_id)
+    jedi = sys.modules.get("jedi")
+    if jedi is not None:
+        try:
+            return _complete_with_jedi(jedi, code, offset, namespace)
+        except Exception:
+            pass
+
+    before = code[:offset]
+    chain = _NAME_CHAIN_BEFORE_CURSOR.search(before).group(0).replace(" ", "")
+    if before[: len(before) - len(chain)].rstrip().endswith("."):
+        # An attribute of something other than a name, such as the result of a call.
+        return {"from": offset, "to": offset, "items": []}
+
+    base, _, prefix = chain.rpartition(".")
+    if base:
+        obj = _resolve(base, namespace)
+        if obj is None:
+            return {"from": offset, "to": offset, "items": []}
+        try:
+            names = dir(obj)
+        except Exception:
+            names = []
+        kinds = {name: _attribute_kind(obj, name) for name in _matching_names(names, prefix)}
+    else:
+        candidates = {**vars(builtins), **namespace}
+        kinds = {name: _kind(candidates[name]) for name in _matching_names(candidates, prefix)}
+
+    items = [{"label": name, "type": kind} for name, kind in sorted(kinds.items())]
+    if not base:
+        items += [{"label": kw, "type": "keyword"} for kw in keyword.kwlist if kw.startswith(prefix)]
+
+    return {"from": offset - len(prefix), "to": offset, "items": items}
+
+
+def _call_name_at(code, offset):
+    """The dotted name of the innermost call the cursor is in the arguments of."""
+    depth = 0
+    for i in range(offset - 1, -1, -1):
+        char = code[i]
+        if char in ")]}":
+            depth += 1
+        elif char in "([{":
+            if depth == 0:
+                if char != "(":
+                    return None
+                name = _NAME_CHAIN_BEFORE_CURSOR.search(code[:i].rstrip()).group(0).replace(" ", "")
+                return name or None
+            depth -= 1
+    return None
+
+
+def signature(code, offset, namespace_id=None):
+    """The signature of the function that is being called at `offset`."""
+    name = _call_name_at(code, offset)
+    obj = _resolve(name, get_namespace(namespace_id)) if name else None
+    if obj is None:
+        return None
+    label = _signature(name.split(".")[-1], obj)
+    if label is None:
+        return None
+    return {"label": label, "doc": _doc(obj)}
+
+
+def hover(code, offset, namespace_id=None):
+    """The signature and docstring of the name at `offset`."""
+    end = offset
+    while end < len(code) and _IDENTIFIER_CHARS.match(code[end]):
+        end += 1
+    name = _NAME_CHAIN_BEFORE_CURSOR.search(code[:end]).group(0).replace(" ", "")
+    if not name or name.endswith("."):
+        return None
+
+    obj = _resolve(name, get_namespace(namespace_id))
+    if obj is None:
+        return None
+    short_name = name.split(".")[-1]
+    label = _signature(short_name, obj) if callable(obj) else None
+    if label is None:
+        label = f"{short_name}: {type(obj).__name__}"
+    return {"label": label, "doc": _doc(obj) if _kind(obj) != "variable" else None}
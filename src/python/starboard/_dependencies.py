@@ -0,0 +1,200 @@
+"""Finds the globals a cell defines and the globals it references, for reactive re-execution (see `reactive.ts`).
+
+The analysis is static: names that are only accessed dynamically (through `globals()`, `exec` or a star import) are
+missed, and mutating a global (as in `data.append(1)`) counts as referencing it, not as defining it.
+"""
+
+import ast
+import json
+
+
+class _Scope:
+    def __init__(self, names, immediate):
+        self.names = names
+        # Class bodies and comprehensions run right away, function bodies only once they are called.
+        self.immediate = immediate
+        self.is_class = False
+
+
+def _import_name(alias):
+    return alias.asname or alias.name.split(".")[0]
+
+
+def _bound_names(nodes):
+    """The names a function body binds in its own scope, and the names it declares `global`."""
+    bound, declared_global = set(), set()
+    stack = list(nodes)
+    while stack:
+        node = stack.pop()
+        if isinstance(node, (ast.FunctionDef, ast.AsyncFunctionDef, ast.ClassDef)):
+            bound.add(node.name)
+            continue
+        if isinstance(node, (ast.Lambda, ast.ListComp, ast.SetComp, ast.DictComp, ast.GeneratorExp)):
+            continue
+        if isinstance(node, ast.Name) and not isinstance(node.ctx, ast.Load):
+            bound.add(node.id)
+        elif isinstance(node, (ast.Import, ast.ImportFrom)):
+            bound.update(_import_name(alias) for alias in node.names if alias.name != "*")
+        elif isinstance(node, ast.ExceptHandler) and node.name:
+            bound.add(node.name)
+        elif isinstance(node, (ast.Global, ast.Nonlocal)):
+            declared_global.update(node.names)
+        stack.extend(ast.iter_child_nodes(node))
+    return bound - declared_global, declared_global
+
+
+class _Analyzer(ast.NodeVisitor):
+    def __init__(self):
+        self.defines = set()
+        self.references = set()
+        # Globals referenced in function bodies, unless the cell defines them itself.
+        self.deferred_references = set()
+        self.scopes = []
+
+    def _load(self, name):
+        for i, scope in enumerate(reversed(self.scopes)):
+            # Names of a class body are not visible in the functions defined in it.
+            if name in scope.names and (i == 0 or not scope.is_class):
+                return
+        if all(scope.immediate for scope in self.scopes):
+            # Code at the top level only depends on other cells for names it uses before defining them itself.
+            if name not in self.defines:
+                self.references.add(name)
+        else:
+            self.deferred_references.add(name)
+
+    def _store(self, name):
+        if not self.scopes:
+            self.defines.add(name)
+
+    def visit_Name(self, node):
+        if isinstance(node.ctx, ast.Load):
+            self._load(node.id)
+        else:
+            self._store(node.id)
+
+    # The value of an assignment is evaluated before its targets are bound.
+    def visit_Assign(self, node):
+        self.visit(node.value)
+        for target in node.targets:
+            self.visit(target)
+
+    def visit_AnnAssign(self, node):
+        if node.value is not None:
+            self.visit(node.value)
+        self.visit(node.annotation)
+        self.visit(node.target)
+
+    def visit_AugAssign(self, node):
+        self.visit(node.value)
+        if isinstance(node.target, ast.Name):
+            self._load(node.target.id)
+        self.visit(node.target)
+
+    def visit_NamedExpr(self, node):
+        self.visit(node.value)
+        self.visit(node.target)
+
+    def visit_For(self, node):
+        self.visit(node.iter)
+        self.visit(node.target)
+        for statement in node.body + node.orelse:
+            self.visit(statement)
+
+    visit_AsyncFor = visit_For
+
+    def visit_Import(self, node):
+        for alias in node.names:
+            if alias.name != "*":
+                self._store(_import_name(alias))
+
+    visit_ImportFrom = visit_Import
+
+    def visit_ExceptHandler(self, node):
+        if node.type is not None:
+            self.visit(node.type)
+        if node.name:
+            self._store(node.name)
+        for statement in node.body:
+            self.visit(statement)
+
+    def _visit_arguments(self, args):
+        """Defaults and annotations are evaluated where the function is defined."""
+        for default in args.defaults + [d for d in args.kw_defaults if d is not None]:
+            self.visit(default)
+        for arg in args.posonlyargs + args.args + args.kwonlyargs + [args.vararg, args.kwarg]:
+            if arg is not None and arg.annotation is not None:
+                self.visit(arg.annotation)
+
+    def _visit_function_body(self, args, body):
+        params = {arg.arg for arg in args.posonlyargs + args.args + args.kwonlyargs + [args.vararg, args.kwarg] if arg}
+        bound, declared_global = _bound_names(body)
+        # Calling the function assigns these globals, so they count as defined by the cell.
+        self.defines.update(declared_global)
+        self.scopes.append(_Scope(params | bound, immediate=False))
+        for node in body:
+            self.visit(node)
+        self.scopes.pop()
+
+    def visit_FunctionDef(self, node):
+        for decorator in node.decorator_list:
+            self.visit(decorator)
+        self._visit_arguments(node.args)
+        if node.returns is not None:
+            self.visit(node.returns)
+        self._store(node.name)
+        self._visit_function_body(node.args, node.body)
+
+    visit_AsyncFunctionDef = visit_FunctionDef
+
+    def visit_Lambda(self, node):
+        self._visit_arguments(node.args)
+        self._visit_function_body(node.args, [node.body])
+
+    def visit_ClassDef(self, node):
+        for child in node.decorator_list + node.bases + node.keywords:
+            self.visit(child)
+        bound, declared_global = _bound_names(node.body)
+        self.defines.update(declared_global)
+        scope = _Scope(bound, immediate=True)
+        scope.is_class = True
+        self.scopes.append(scope)
+        for statement in node.body:
+            self.visit(statement)
+        self.scopes.pop()
+        self._store(node.name)
+
+    def _visit_comprehension(self, node, elements):
+        # The first iterable is evaluated in the enclosing scope, everything else in the comprehension's own scope.
+        self.visit(node.generators[0].iter)
+        targets = {n.id for g in node.generators for n in ast.walk(g.target) if isinstance(n, ast.Name)}
+        self.scopes.append(_Scope(targets, immediate=True))
+        for i, generator in enumerate(node.generators):
+            if i > 0:
+                self.visit(generator.iter)
+            for condition in generator.ifs:
+                self.visit(condition)
+        for element in elements:
+            self.visit(element)
+        self.scopes.pop()
+
+    def visit_ListComp(self, node):
+        self._visit_comprehension(node, [node.elt])
+
+    visit_SetComp = visit_GeneratorExp = visit_ListComp
+
+    def visit_DictComp(self, node):
+        self._visit_comprehension(node, [node.key, node.value])
+
+
+def analyze(code):
+    """Returns `{"defines": [...], "references": [...]}` as JSON, or `null` if the code has a syntax error."""
+    try:
+        tree = ast.parse(code)
+    except SyntaxError:
+        return json.dumps(None)
+
+    analyzer = _Analyzer()
+    analyzer.visit(tree)
+    references = analyzer.references | (analyzer.deferred_references - analyzer.defines)
+    return json.dumps({"defines": sorted(analyzer.defines), "references": sorted(references)})
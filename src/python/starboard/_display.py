@@ -0,0 +1,79 @@
+"""Showing rich output in the cell that is currently running, similar to IPython's `display` function."""
+
+import contextvars
+import json
+
+from ._repr import format_mimebundle, get_mimebundle
+from ._stream import _current_output
+
+# Set by `%%capture`, displayed objects are collected in the list instead of being shown.
+captured_outputs = contextvars.ContextVar("starboard_captured_outputs", default=None)
+
+
+def display(*objs, raw=False):
+    """Shows each of the objects in the output of the running cell, using the richest representation available.
+
+    If `raw` is true the objects should be mime bundles (dicts of mime type to data), which are shown as-is.
+    """
+    from js import pyodide
+
+    captured = captured_outputs.get()
+    for obj in objs:
+        bundle = format_mimebundle(obj) if raw else get_mimebundle(obj)
+        if captured is not None:
+            captured.append(bundle)
+        else:
+            pyodide.displayHelpers.display(_current_output.get(), json.dumps(bundle))
+
+
+def clear_output(wait=False):
+    """Clears the output of the running cell, if `wait` is true it is cleared once new output is shown."""
+    from js import pyodide
+
+    pyodide.displayHelpers.clearOutput(_current_output.get(), wait)
+
+
+class DisplayObject:
+    """Wraps data that is already in a displayable format, so it is shown as that format instead of as a string."""
+
+    def __init__(self, data):
+        self.data = data
+
+    def __repr__(self):
+        return f"<{type(self).__name__} object>"
+
+
+class HTML(DisplayObject):
+    def _repr_html_(self):
+        return self.data
+
+
+class Markdown(DisplayObject):
+    def _repr_markdown_(self):
+        return self.data
+
+
+class Latex(DisplayObject):
+    def _repr_latex_(self):
+        return self.data
+
+
+class SVG(DisplayObject):
+    def _repr_svg_(self):
+        return self.data
+
+
+class JSON(DisplayObject):
+    def _repr_json_(self):
+        return self.data
+
+
+class Image(DisplayObject):
+    """An image from PNG or JPEG encoded bytes."""
+
+    def __init__(self, data, format="png"):
+        super().__init__(data)
+        self.format = format
+
+    def _repr_mimebundle_(self, include=None, exclude=None):
+        return {f"image/{self.format}": self.data}
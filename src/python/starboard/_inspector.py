@@ -0,0 +1,167 @@
+"""The variable inspector of the plugin's panel, lists the user's globals and lets them drill down into containers.
+
+Results are JSON encoded. Containers are drilled down into by position, so a path is a list of child indices:
+a dict's items, a sequence's elements, a DataFrame's columns or an array's rows.
+"""
+
+import builtins
+import inspect
+import itertools
+import json
+import reprlib
+import sys
+
+from ._namespaces import get as get_namespace
+
+# Children listed per level, and the characters of a repr shown in the list.
+_MAX_CHILDREN = 100
+_MAX_REPR_LENGTH = 120
+_MAX_PREVIEW_ROWS = 20
+
+_repr = reprlib.Repr()
+_repr.maxstring = _MAX_REPR_LENGTH
+_repr.maxother = _MAX_REPR_LENGTH
+
+
+def is_user_variable(name, value):
+    if name.startswith("_") or inspect.ismodule(value):
+        return False
+    # The bootstrap merges the builtins into the globals, those are not the user's.
+    return not (name in builtins.__dict__ and builtins.__dict__[name] is value)
+
+
+def _short_repr(value):
+    try:
+        text = _repr.repr(value)
+    except Exception as e:
+        text = f"<repr failed: {type(e).__name__}>"
+    return text if len(text) <= _MAX_REPR_LENGTH else text[: _MAX_REPR_LENGTH - 3] + "..."
+
+
+def _type_name(value):
+    cls = type(value)
+    return cls.__name__ if cls.__module__ == "builtins" else f"{cls.__module__}.{cls.__name__}"
+
+
+def _is_dataframe(value):
+    pandas = sys.modules.get("pandas")
+    return pandas is not None and isinstance(value, (pandas.DataFrame, pandas.Series))
+
+
+def _is_ndarray(value):
+    numpy = sys.modules.get("numpy")
+    return numpy is not None and isinstance(value, numpy.ndarray)
+
+
+def _shape(value):
+    if _is_ndarray(value) or _is_dataframe(value):
+        return list(value.shape)
+    if isinstance(value, (str, bytes)) or not hasattr(type(value), "__len__"):
+        return None
+    try:
+        return [len(value)]
+    except Exception:
+        return None
+
+
+def _memory_estimate(value):
+    """Bytes used by the value, for containers including (but not beyond) their direct elements."""
+    try:
+        if _is_ndarray(value):
+            return int(value.nbytes)
+        if _is_dataframe(value):
+            usage = value.memory_usage(deep=True)
+            return int(usage.sum()) if hasattr(usage, "sum") else int(usage)
+        size = sys.getsizeof(value)
+        if isinstance(value, dict):
+            size += sum(sys.getsizeof(k) + sys.getsizeof(v) for k, v in value.items())
+        elif isinstance(value, (list, tuple, set, frozenset)):
+            size += sum(sys.getsizeof(v) for v in value)
+        return size
+    except Exception:
+        return None
+
+
+def _is_container(value):
+    if _is_ndarray(value):
+        return value.ndim > 0
+    return _is_dataframe(value) or isinstance(value, (dict, list, tuple, set, frozenset))
+
+
+def _child_count(value):
+    if _is_dataframe(value) and hasattr(value, "columns"):
+        return len(value.columns)
+    return len(value)
+
+
+def _children(value, limit):
+    """The first (label, value) pairs of a container, the things it can be drilled down into."""
+    if _is_dataframe(value):
+        if hasattr(value, "columns"):
+            pairs = ((str(column), value[column]) for column in value.columns)
+        else:
+            pairs = ((str(index), item) for index, item in value.items())
+    elif isinstance(value, dict):
+        pairs = ((_short_repr(k), v) for k, v in value.items())
+    else:
+        pairs = ((str(i), v) for i, v in enumerate(value))
+    return list(itertools.islice(pairs, limit))
+
+
+def _describe(name, value):
+    return {
+        "name": name,
+        "type": _type_name(value),
+        "shape": _shape(value),
+        "size": _memory_estimate(value),
+        "repr": _short_repr(value),
+        "expandable": _is_container(value),
+    }
+
+
+def _preview(value):
+    """A multi-line overview of tables and arrays, which are hard to get a feel for one row at a time."""
+    try:
+        if _is_dataframe(value):
+            return value.head(_MAX_PREVIEW_ROWS).to_string()
+        if _is_ndarray(value):
+            import numpy
+
+            return numpy.array2string(value, threshold=200)
+    except Exception:
+        pass
+    return None
+
+
+def list_variables(namespace_id=None):
+    """The user's globals, sorted by name."""
+    namespace = get_namespace(namespace_id)
+    variables = [_describe(name, value) for name, value in namespace.items() if is_user_variable(name, value)]
+    return json.dumps(sorted(variables, key=lambda v: v["name"]))
+
+
+def inspect_variable(name, path_json="[]", namespace_id=None):
+    """Describes the value at the path within a variable, including its children. Returns `null` if it's gone."""
+    namespace = get_namespace(namespace_id)
+    if name not in namespace:
+        return json.dumps(None)
+
+    value = namespace[name]
+    labels = [name]
+    for index in json.loads(path_json):
+        if not _is_container(value) or index >= _child_count(value):
+            return json.dumps(None)
+        label, value = _children(value, index + 1)[index]
+        labels.append(label)
+
+    is_container = _is_container(value)
+    details = _describe(labels[-1], value)
+    details["path"] = labels
+    details["preview"] = _preview(value)
+    details["children"] = [_describe(l, c) for l, c in _children(value, _MAX_CHILDREN)] if is_container else []
+    details["childCount"] = _child_count(value) if is_container else 0
+    return json.dumps(details)
+
+
+def delete_variable(name, namespace_id=None):
+    get_namespace(namespace_id).pop(name, None)
@@ -0,0 +1,247 @@
+"""The Python side of IPython-style magics, cells are rewritten into calls of these functions (see `magics.ts`).
+
+Code given to a magic runs in the globals of the cell's namespace, and like a cell its last expression is its value.
+"""
+
+import contextlib
+import io
+import json
+import re
+import shlex
+import statistics
+import sys
+import time as _time
+import timeit as _timeit
+import tokenize
+
+from ._display import captured_outputs, display
+from ._inspector import is_user_variable
+from ._namespaces import current as _namespace
+
+
+# A line magic or a shell command (assigned to a variable or not), neither is valid Python at the start of a statement.
+_MAGIC_LINE_REGEX = re.compile(r"\s*(%|!|[A-Za-z_]\w*\s*=\s*!)")
+
+
+class UsageError(Exception):
+    """Raised for unknown magics and invalid arguments of a magic."""
+
+
+def _eval(code):
+    from pyodide import eval_code
+
+    return eval_code(code, _namespace())
+
+
+async def _eval_async(code):
+    from pyodide import eval_code_async
+
+    return await eval_code_async(code, _namespace())
+
+
+def _format_time(seconds):
+    """Three significant digits in a fitting unit, like IPython does."""
+    if seconds <= 0:
+        return "0 ns"
+    for unit, scale in (("s", 1), ("ms", 1e-3), ("µs", 1e-6)):
+        if seconds >= scale:
+            return f"{seconds / scale:.3g} {unit}"
+    return f"{seconds / 1e-9:.3g} ns"
+
+
+def _print_times(cpu_seconds, wall_seconds):
+    print(f"CPU times: total: {_format_time(cpu_seconds)}")
+    print(f"Wall time: {_format_time(wall_seconds)}")
+
+
+def unknown(kind, name):
+    prefix = "%%" if kind == "cell" else "%"
+    raise UsageError(f"{kind.capitalize()} magic function `{prefix}{name}` not found.")
+
+
+def time(code):
+    """`%time`: runs the statement once and prints how long it took."""
+    cpu_start, wall_start = _time.process_time(), _time.perf_counter()
+    try:
+        return _eval(code)
+    finally:
+        _print_times(_time.process_time() - cpu_start, _time.perf_counter() - wall_start)
+
+
+async def time_cell(code):
+    """`%%time`, which unlike the line magic can await."""
+    cpu_start, wall_start = _time.process_time(), _time.perf_counter()
+    try:
+        return await _eval_async(code)
+    finally:
+        _print_times(_time.process_time() - cpu_start, _time.perf_counter() - wall_start)
+
+
+def _parse_timeit_args(args):
+    """Splits the `-n <loops>` and `-r <repeat>` options off the statement."""
+    loops, repeat = None, 7
+    rest = args.strip()
+    while rest.startswith("-"):
+        option, _, rest = rest.partition(" ")
+        value, _, rest = rest.strip().partition(" ")
+        rest = rest.strip()
+        if option not in ("-n", "-r") or not value.isdigit() or int(value) < 1:
+            raise UsageError(f"Invalid option for %timeit: {option} {value}".strip())
+        if option == "-n":
+            loops = int(value)
+        else:
+            repeat = int(value)
+    return loops, repeat, rest
+
+
+def timeit(args, body=None):
+    """`%timeit` and `%%timeit`, runs the code many times and prints the mean time per run.
+
+    For the cell magic the rest of the first line is setup code that is run (but not timed) before each repeat.
+    """
+    loops, repeat, rest = _parse_timeit_args(args)
+    stmt, setup = (body, rest or "pass") if body is not None else (rest, "pass")
+    timer = _timeit.Timer(stmt, setup, globals=_namespace())
+    if loops is None:
+        loops, _ = timer.autorange()
+    per_loop = [t / loops for t in timer.repeat(repeat, loops)]
+
+    mean = statistics.mean(per_loop)
+    deviation = statistics.stdev(per_loop) if len(per_loop) > 1 else 0.0
+    runs = "run" if repeat == 1 else "runs"
+    loop_text = "loop" if loops == 1 else "loops"
+    print(
+        f"{_format_time(mean)} ± {_format_time(deviation)} per loop "
+        f"(mean ± std. dev. of {repeat} {runs}, {loops} {loop_text} each)"
+    )
+
+
+class CapturedIO:
+    """What `%%capture` collected: the text written to stdout and stderr, and the displayed mime bundles."""
+
+    def __init__(self, stdout, stderr, outputs):
+        self.stdout = stdout
+        self.stderr = stderr
+        self.outputs = outputs
+
+    def show(self):
+        """Shows everything that was captured, as if it hadn't been."""
+        sys.stdout.write(self.stdout)
+        sys.stderr.write(self.stderr)
+        for bundle in self.outputs:
+            display(bundle, raw=True)
+
+    __call__ = show
+
+    def __repr__(self):
+        return f"<CapturedIO: {len(self.stdout)} characters of stdout, {len(self.outputs)} outputs>"
+
+
+async def capture(args, code):
+    """`%%capture [--no-stdout] [--no-stderr] [--no-display] [name]`, runs the cell without showing its output.
+
+    The output is stored in the given global (as a `CapturedIO`) if there is one.
+    """
+    options = shlex.split(args)
+    names = [option for option in options if not option.startswith("-")]
+    unknown_options = set(options) - set(names) - {"--no-stdout", "--no-stderr", "--no-display"}
+    if unknown_options or len(names) > 1:
+        raise UsageError(f"Invalid arguments for %%capture: {args}")
+
+    stdout, stderr, outputs = io.StringIO(), io.StringIO(), []
+    with contextlib.ExitStack() as stack:
+        if "--no-stdout" not in options:
+            stack.enter_context(contextlib.redirect_stdout(stdout))
+        if "--no-stderr" not in options:
+            stack.enter_context(contextlib.redirect_stderr(stderr))
+        if "--no-display" not in options:
+            token = captured_outputs.set(outputs)
+            stack.callback(captured_outputs.reset, token)
+        await _eval_async(code)
+
+    if names:
+        _namespace()[names[0]] = CapturedIO(stdout.getvalue(), stderr.getvalue(), outputs)
+
+
+def who(args=""):
+    """`%who [type ...]`: prints the names of the user's variables, optionally only those of the given types."""
+    types = set(args.split())
+    names = [
+        name
+        for name, value in _namespace().items()
+        if is_user_variable(name, value) and (not types or type(value).__name__ in types)
+    ]
+    print("  ".join(sorted(names)) if names else "Interactive namespace is empty.")
+
+
+def reset(args=""):
+    """`%reset [-f]`: deletes the user's variables. There is no prompt to confirm with, so `-f` is implied."""
+    namespace = _namespace()
+    for name in [name for name, value in namespace.items() if is_user_variable(name, value)]:
+        del namespace[name]
+
+
+def pip(args):
+    """`%pip` lines that the plugin didn't install packages for, such as `%pip list`."""
+    raise UsageError(f"`%pip {args}` is not supported, only `%pip install <packages>` on its own line of a cell is.")
+
+
+def shell(command):
+    """`!command`: there is no shell in the browser, so this only explains that. Returns an empty list of lines."""
+    print(f"Shell commands are not available in the browser, `!{command}` was not run.", file=sys.stderr)
+    return []
+
+
+def matplotlib(args=""):
+    """`%matplotlib [inline | svg | widget]`: `plt.show()` shows PNG images, SVG images or interactive figures."""
+    from . import _matplotlib
+
+    formats = {"inline": "png", "png": "png", "svg": "svg", "widget": "interactive", "interactive": "interactive"}
+    name = args.strip()
+    if not name:
+        print(f"Figures are shown as: {_matplotlib.get_format()}")
+        return
+    if name not in formats:
+        raise UsageError(f"Unknown option for %matplotlib: {name}, use one of: {', '.join(formats)}")
+    _matplotlib.set_format(formats[name])
+
+
+def statement_lines(code):
+    """The indexes of the lines of the code that start a statement, JSON encoded.
+
+    Only those lines can be line magics or shell commands, lines in brackets, in strings or after a backslash continue
+    the statement before them (such as a line starting with `!=` in brackets). Magics are passed to the tokenizer as
+    `pass`, their text isn't Python and could look like it opens a bracket or a string.
+    """
+    lines = [line + "\n" for line in code.split("\n")]
+    starts = []
+    read = 0
+    at_start = True
+    depth = 0
+
+    def readline():
+        nonlocal read, at_start
+        if read == len(lines):
+            return ""
+        line = lines[read]
+        if at_start:
+            starts.append(read)
+            if _MAGIC_LINE_REGEX.match(line):
+                line = line[: len(line) - len(line.lstrip())] + "pass\n"
+        read += 1
+        # Until the tokens of the line show that it ends the statement.
+        at_start = False
+        return line
+
+    try:
+        for token in tokenize.generate_tokens(readline):
+            if token.type == tokenize.OP and token.string in ("(", "[", "{"):
+                depth += 1
+            elif token.type == tokenize.OP and token.string in (")", "]", "}"):
+                depth = max(depth - 1, 0)
+            elif token.type == tokenize.NEWLINE or (token.type == tokenize.NL and depth == 0):
+                at_start = True
+    except (tokenize.TokenError, SyntaxError):
+        # The code fails once it runs, the lines after the error are taken to start statements.
+        starts.extend(range(read, len(lines)))
+    return json.dumps(starts)
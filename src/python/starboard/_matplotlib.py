@@ -0,0 +1,131 @@
+"""Matplotlib figures in the output of the cell that shows them (see `figures.ts`).
+
+Figures are either interactive, drawn by Pyodide's WASM backend into a canvas, or static snapshots that `plt.show()`
+renders as PNG or SVG. Interactive figures need a DOM, so when Python runs in a worker figures are always snapshots.
+A figure goes to the cell whose code (or background task) shows it, even when that cell has finished running.
+Shown figures are kept until their cell's output is cleared, so they can be saved in another format.
+"""
+
+import base64
+import io
+import itertools
+import json
+import secrets
+
+from . import _stream
+from ._display import captured_outputs, display
+
+FIGURE_MIME_TYPE = "application/vnd.starboard.matplotlib-figure+json"
+FORMATS = {"png": "image/png", "svg": "image/svg+xml"}
+
+_figures = {}
+# Ids are unique across restarts, so a restarted interpreter is not asked to release figures it never showed.
+_session = secrets.token_hex(4)
+_ids = itertools.count(1)
+# Not set means interactive if possible.
+_format = None
+
+
+def _has_dom():
+    try:
+        from js import document  # noqa: F401
+    except ImportError:
+        return False
+    return True
+
+
+def set_format(format):
+    """How `plt.show()` shows figures: "interactive", or as a static "png" or "svg" snapshot."""
+    global _format
+    if format != "interactive" and format not in FORMATS:
+        raise ValueError(f"Unknown figure format {format!r}, use 'interactive', 'png' or 'svg'")
+    if format == "interactive" and not _has_dom():
+        raise ValueError("Interactive figures are not available when Python runs in a worker")
+    _format = format
+
+
+def get_format():
+    if _format is None:
+        return "interactive" if _has_dom() else "png"
+    return _format
+
+
+def _register(figure):
+    figure_id = f"{_session}-{next(_ids)}"
+    _figures[figure_id] = figure
+    return figure_id
+
+
+def save(figure_id, format):
+    """Renders a figure that was shown, base64 encoded. Returns None if its output was cleared in the meantime."""
+    figure = _figures.get(figure_id)
+    if figure is None:
+        return None
+    buffer = io.BytesIO()
+    figure.savefig(buffer, format=format, bbox_inches="tight")
+    return base64.b64encode(buffer.getvalue()).decode("ascii")
+
+
+def release(figure_ids_json):
+    """Forgets figures whose output was cleared, interactive ones are closed which frees their canvas."""
+    import matplotlib.pyplot as plt
+
+    for figure_id in json.loads(figure_ids_json):
+        figure = _figures.pop(figure_id, None)
+        if figure is not None:
+            plt.close(figure)
+
+
+def _show_snapshot(figure, format):
+    buffer = io.BytesIO()
+    figure.savefig(buffer, format=format, bbox_inches="tight")
+    data = buffer.getvalue()
+    bundle = {
+        FIGURE_MIME_TYPE: json.dumps({"figure_id": _register(figure)}),
+        FORMATS[format]: base64.b64encode(data).decode("ascii") if format == "png" else data.decode("utf-8"),
+        "text/plain": repr(figure),
+    }
+
+    output_id = _stream._current_output.get()
+    if output_id is None or captured_outputs.get() is not None:
+        display(bundle, raw=True)
+    else:
+        from js import pyodide
+
+        pyodide.matplotlibHelpers.display(output_id, json.dumps(bundle))
+
+
+def _create_root_element(canvas):
+    """Replaces the WASM backend's method, which creates an element that never gets attached to the document."""
+    from js import pyodide
+
+    output_id = _stream._current_output.get()
+    return pyodide.matplotlibHelpers.createElement("div", output_id, _register(canvas.figure))
+
+
+def install():
+    """Called once matplotlib is loaded."""
+    import matplotlib
+
+    has_dom = _has_dom()
+    if not has_dom:
+        matplotlib.use("agg")
+
+    import matplotlib.pyplot as plt
+
+    show_interactive = plt.show
+
+    def show(*args, **kwargs):
+        format = get_format()
+        if format == "interactive":
+            return show_interactive(*args, **kwargs)
+        for num in plt.get_fignums():
+            _show_snapshot(plt.figure(num), format)
+        # Snapshots are only shown once, like with IPython's inline backend.
+        plt.close("all")
+
+    plt.show = show
+    if has_dom:
+        from matplotlib.backends.wasm_backend import FigureCanvasWasm
+
+        FigureCanvasWasm.create_root_element = _create_root_element
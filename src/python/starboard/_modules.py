@@ -0,0 +1,51 @@
+"""Modules defined by module cells, see `modules.ts`.
+
+The code of a module cell is written to a `.py` file so it can be imported like any other module. A module that is
+imported already is reloaded when its code changes, so the cells that import it pick up the change. Objects that were
+taken out of the old module (as in `from helpers import f`) keep their old code until the cell that took them runs
+again.
+"""
+
+import importlib
+import importlib.util
+import os
+import re
+import sys
+
+_MODULE_NAME_REGEX = re.compile(r"[A-Za-z_]\w*(\.[A-Za-z_]\w*)*")
+
+
+def get_path(name, directory):
+    if not _MODULE_NAME_REGEX.fullmatch(name):
+        raise ValueError(f"{name!r} is not a valid module name")
+    return os.path.join(directory, *name.split(".")) + ".py"
+
+
+def define(name, source, directory):
+    """Writes the code of a module and reloads the module if it is imported already. Returns the path of its file."""
+    path = get_path(name, directory)
+    os.makedirs(os.path.dirname(path), exist_ok=True)
+    with open(path, "w") as f:
+        f.write(source)
+
+    # Bytecode is only checked against the modification time in seconds, a quick edit could go unnoticed.
+    try:
+        os.remove(importlib.util.cache_from_source(path))
+    except OSError:
+        pass
+    if directory not in sys.path:
+        sys.path.insert(0, directory)
+    # The import system caches the listings of directories, which don't have the file yet if it is new.
+    importlib.invalidate_caches()
+
+    module = sys.modules.get(name)
+    if module is not None:
+        importlib.reload(module)
+    return path
+
+
+def run(name, source, directory):
+    """Runs a module cell, the module is imported if it isn't yet so errors in its code show up right away."""
+    define(name, source, directory)
+    if name not in sys.modules:
+        importlib.import_module(name)
@@ -0,0 +1,64 @@
+"""Separate global namespaces, so independent Python contexts can share one interpreter (see `namespaces.ts`).
+
+A namespace is picked by its id, code that runs without one uses the globals of `__main__` like plain Pyodide does.
+Like the cell output in `_stream`, the namespace that is in use is tracked in a context variable. Magics, completion
+and the variable inspector look up names in it, and background tasks keep the namespace of the cell that started them.
+"""
+
+import builtins
+import contextlib
+import contextvars
+import json
+
+_namespaces = {}
+_current_namespace = contextvars.ContextVar("starboard_current_namespace", default=None)
+
+
+def get(namespace_id=None):
+    """The globals of a namespace, it is created when it is first used."""
+    if not namespace_id:
+        import __main__
+
+        return __main__.__dict__
+
+    namespace = _namespaces.get(namespace_id)
+    if namespace is None:
+        # Seeded like Pyodide's bootstrap seeds the globals of `__main__`, but the name stays `__main__`.
+        namespace = dict(builtins.__dict__)
+        namespace.update({"__name__": "__main__", "__doc__": None, "__builtins__": builtins})
+        _namespaces[namespace_id] = namespace
+    return namespace
+
+
+def current():
+    """The globals of the namespace in use, those of `__main__` outside of a namespaced cell."""
+    return get(_current_namespace.get())
+
+
+def set_current(namespace_id=None):
+    _current_namespace.set(namespace_id or None)
+
+
+@contextlib.contextmanager
+def use(namespace_id):
+    """Uses the given namespace within the block, for calls that are not part of a cell run such as completion."""
+    token = _current_namespace.set(namespace_id or None)
+    try:
+        yield
+    finally:
+        _current_namespace.reset(token)
+
+
+def list_namespaces():
+    """The ids of the namespaces that were used, as JSON. The globals of `__main__` are not included."""
+    return json.dumps(sorted(_namespaces))
+
+
+def delete(namespace_id):
+    """Drops a namespace with all its globals, it starts out empty when it is used again."""
+    _namespaces.pop(namespace_id, None)
+
+
+def clear():
+    """Drops all namespaces, called when the globals are reset."""
+    _namespaces.clear()
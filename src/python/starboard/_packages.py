@@ -0,0 +1,29 @@
+"""Installing packages with micropip, progress is reported to the package manager of the plugin."""
+
+import json
+
+
+async def install(names):
+    """Installs the packages one by one, returns a JSON object of the packages that failed to install and why.
+
+    Packages that are part of the Pyodide distribution are loaded from there, others are pure Python wheels from PyPI.
+    """
+    from js import pyodide
+
+    def report(name, status, message=""):
+        pyodide.packageHelpers.progress(name, status, message)
+
+    await pyodide.loadPackage("micropip")
+    import micropip
+
+    errors = {}
+    for name in names:
+        report(name, "installing")
+        try:
+            await micropip.install(name)
+        except Exception as e:
+            errors[name] = str(e)
+            report(name, "error", str(e))
+        else:
+            report(name, "installed")
+    return json.dumps(errors)
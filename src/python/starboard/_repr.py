@@ -0,0 +1,91 @@
+"""IPython-style rich display protocol, objects are converted to a mime bundle that the notebook renders."""
+
+import base64
+import inspect
+import json
+import sys
+import traceback
+
+# The individual repr methods that are checked if an object doesn't implement `_repr_mimebundle_`.
+REPR_METHODS = {
+    "text/html": "_repr_html_",
+    "text/markdown": "_repr_markdown_",
+    "image/svg+xml": "_repr_svg_",
+    "image/png": "_repr_png_",
+    "image/jpeg": "_repr_jpeg_",
+    "text/latex": "_repr_latex_",
+    "application/json": "_repr_json_",
+}
+
+BINARY_MIME_TYPES = {"image/png", "image/jpeg"}
+
+
+def _to_json_text(data):
+    """Like IPython, a string is taken to be JSON already. One that isn't is shown as a string rather than failing."""
+    if isinstance(data, str):
+        try:
+            json.loads(data)
+            return data
+        except ValueError:
+            pass
+    return json.dumps(data, default=repr)
+
+
+def _to_text(mime_type, data):
+    """Every representation is sent to Javascript as a string, binary data is base64 encoded."""
+    if isinstance(data, tuple):
+        # Repr methods may return a (data, metadata) tuple
+        data = data[0]
+    if data is None:
+        return None
+    if mime_type == "application/json":
+        return _to_json_text(data)
+    if isinstance(data, bytes):
+        if mime_type in BINARY_MIME_TYPES:
+            return base64.b64encode(data).decode("ascii")
+        return data.decode("utf-8")
+    return str(data)
+
+
+def _call_repr_method(obj, name, *args, **kwargs):
+    method = getattr(obj, name, None)
+    if not callable(method):
+        return None
+    try:
+        return method(*args, **kwargs)
+    except Exception:
+        print(f"Error in {type(obj).__name__}.{name}:", file=sys.stderr)
+        traceback.print_exc()
+        return None
+
+
+def format_mimebundle(data_by_mime_type):
+    """Converts all data in a mime bundle to strings, entries without data are left out."""
+    bundle = {}
+    for mime_type, data in data_by_mime_type.items():
+        text = _to_text(mime_type, data)
+        if text is not None:
+            bundle[mime_type] = text
+    return bundle
+
+
+def get_mimebundle(obj):
+    """Returns a dict of mime type to representation of the given object, it always contains `text/plain`."""
+    bundle = {}
+
+    # Classes have the repr methods of their instances, those can't be called without an instance.
+    if not inspect.isclass(obj):
+        result = _call_repr_method(obj, "_repr_mimebundle_", include=None, exclude=None)
+        if isinstance(result, tuple):
+            result = result[0]
+        bundle.update(format_mimebundle(result or {}))
+
+        for mime_type, name in REPR_METHODS.items():
+            if mime_type in bundle:
+                continue
+            text = _to_text(mime_type, _call_repr_method(obj, name))
+            if text is not None:
+                bundle[mime_type] = text
+
+    bundle["text/plain"] = repr(obj)
+    return bundle
@@ -0,0 +1,70 @@
+"""Routing of `sys.stdout` and `sys.stderr` to the output of the cell that is running.
+
+The cell is tracked in a context variable. Asyncio tasks copy the context when they are created, so output of a
+background task that is produced after its cell has finished still ends up in the cell that started it.
+"""
+
+import contextlib
+import contextvars
+import io
+import sys
+
+_current_output = contextvars.ContextVar("starboard_current_output", default=None)
+
+
+def set_current_cell(output_id=None):
+    """Sets the cell output that is written to, without one the output goes to the browser console."""
+    _current_output.set(output_id)
+
+
+@contextlib.contextmanager
+def output_to(output_id):
+    """Writes to the given cell output within the block, for callbacks that run after their cell has finished."""
+    token = _current_output.set(output_id)
+    try:
+        yield
+    finally:
+        _current_output.reset(token)
+
+
+class CellOutputStream(io.TextIOBase):
+    """A text stream that sends everything written to it to the current cell's output right away."""
+
+    def __init__(self, name, fallback):
+        super().__init__()
+        self.name = name
+        self.fallback = fallback
+
+    @property
+    def encoding(self):
+        return self.fallback.encoding
+
+    @property
+    def errors(self):
+        return self.fallback.errors
+
+    def writable(self):
+        return True
+
+    def isatty(self):
+        return False
+
+    def write(self, text):
+        output_id = _current_output.get()
+        if output_id is None:
+            return self.fallback.write(text)
+
+        from js import pyodide
+
+        pyodide.streamHelpers.write(output_id, self.name, text)
+        return len(text)
+
+    def flush(self):
+        self.fallback.flush()
+
+
+def install():
+    if not isinstance(sys.stdout, CellOutputStream):
+        sys.stdout = CellOutputStream("stdout", sys.stdout)
+    if not isinstance(sys.stderr, CellOutputStream):
+        sys.stderr = CellOutputStream("stderr", sys.stderr)
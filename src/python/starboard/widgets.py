@@ -0,0 +1,548 @@
+"""Interactive widgets, a subset of the `ipywidgets` API.
+
+Every widget has a model of synced attributes (its traits) that is mirrored on the Javascript side (see `widgets.ts`),
+where the controls are rendered. Changing a trait in Python updates the controls, and using a control sets the trait
+in Python, which calls the handlers registered with `observe`. Messages in both directions are JSON:
+
+* to Javascript: `{"method": "open" | "update", "model_id", "state"}` and `{"method": "close", "model_id"}`
+* from Javascript: `{"method": "update", "model_id", "state"}` and `{"method": "custom", "model_id", "content"}`
+"""
+
+import contextlib
+import inspect
+import itertools
+import json
+import traceback
+
+from . import _stream
+from ._display import captured_outputs, display
+from ._repr import get_mimebundle
+
+WIDGET_VIEW_MIME_TYPE = "application/vnd.jupyter.widget-view+json"
+
+# Widgets stay alive until they are closed, as their controls may still be shown.
+_widgets = {}
+_ids = itertools.count(1)
+
+
+def _send(message):
+    from js import pyodide
+
+    pyodide.widgetHelpers.send(json.dumps(message))
+
+
+def _receive(messages_json):
+    """Handles the messages of the controls, callbacks run as if they were part of the cell the widget was shown in."""
+    for message in json.loads(messages_json):
+        widget = _widgets.get(message["model_id"])
+        if widget is None:
+            continue
+        with _stream.output_to(widget._output_id):
+            try:
+                if message["method"] == "update":
+                    for name, value in message["state"].items():
+                        widget._set_from_frontend(name, value)
+                elif message["method"] == "custom":
+                    widget._handle_custom_message(message["content"])
+            except Exception:
+                traceback.print_exc()
+
+
+class Widget:
+    """Base class of all widgets, subclasses declare their traits and default values in `_traits`."""
+
+    _model_name = "Widget"
+    _traits = {}
+
+    def __init__(self, **kwargs):
+        traits = {}
+        for cls in reversed(type(self).__mro__):
+            traits.update(cls.__dict__.get("_traits", {}))
+        unknown = set(kwargs) - set(traits)
+        if unknown:
+            raise TypeError(f"{type(self).__name__} got unexpected keyword arguments: {', '.join(sorted(unknown))}")
+
+        object.__setattr__(self, "model_id", str(next(_ids)))
+        object.__setattr__(self, "_state", {})
+        object.__setattr__(self, "_handlers", [])
+        object.__setattr__(self, "_output_id", None)
+        for name, default in traits.items():
+            value = kwargs.get(name, default)
+            self._state[name] = self._validate(name, list(value) if isinstance(value, list) else value)
+
+        _widgets[self.model_id] = self
+        _send({"method": "open", "model_id": self.model_id, "model_name": self._model_name, "state": self._get_state()})
+
+    @property
+    def keys(self):
+        return list(self._state)
+
+    def __getattr__(self, name):
+        state = self.__dict__.get("_state", {})
+        if name in state:
+            return state[name]
+        raise AttributeError(f"{type(self).__name__!r} object has no attribute {name!r}")
+
+    def __setattr__(self, name, value):
+        if name not in self._state:
+            object.__setattr__(self, name, value)
+            return
+
+        old = self._state[name]
+        new = self._validate(name, value)
+        self._state[name] = new
+        if new != old:
+            self._send_state([name])
+            self._notify(name, old, new)
+
+    def _validate(self, name, value):
+        """Converts (or rejects) a new value of a trait, subclasses override this for their traits."""
+        return value
+
+    def _get_state(self, names=None):
+        return {
+            name: self._serialize(name, value) for name, value in self._state.items() if names is None or name in names
+        }
+
+    def _serialize(self, name, value):
+        if isinstance(value, Widget):
+            return value.model_id
+        if isinstance(value, (list, tuple)):
+            return [v.model_id if isinstance(v, Widget) else v for v in value]
+        return value
+
+    def _send_state(self, names):
+        if self.model_id in _widgets:
+            _send({"method": "update", "model_id": self.model_id, "state": self._get_state(names)})
+
+    def _set_from_frontend(self, name, value):
+        if name not in self._state:
+            return
+        old = self._state[name]
+        new = self._validate(name, value)
+        self._state[name] = new
+        # The control has to show the value it was corrected to, such as a slider value outside of its bounds.
+        if new != value:
+            self._send_state([name])
+        if new != old:
+            self._notify(name, old, new)
+
+    def _handle_custom_message(self, content):
+        pass
+
+    def _notify(self, name, old, new):
+        change = {"name": name, "old": old, "new": new, "owner": self, "type": "change"}
+        for handler, names in list(self._handlers):
+            if names is None or name in names:
+                handler(change)
+
+    def observe(self, handler, names=None):
+        """Calls `handler` with a dict of `name`, `old`, `new` and `owner` whenever one of the traits changes."""
+        if isinstance(names, str):
+            names = [names]
+        self._handlers.append((handler, None if names is None else set(names)))
+
+    def unobserve(self, handler, names=None):
+        if isinstance(names, str):
+            names = [names]
+        names = None if names is None else set(names)
+        self._handlers[:] = [(h, n) for h, n in self._handlers if not (h == handler and (names is None or n == names))]
+
+    def close(self):
+        """Removes the widget's controls, and lets the widget be garbage collected."""
+        if _widgets.pop(self.model_id, None) is not None:
+            _send({"method": "close", "model_id": self.model_id})
+
+    def _repr_mimebundle_(self, include=None, exclude=None):
+        # Callbacks write to the output of the cell the widget was last shown in.
+        object.__setattr__(self, "_output_id", _stream._current_output.get())
+        for child in self._get_children():
+            child._repr_mimebundle_()
+        return {
+            WIDGET_VIEW_MIME_TYPE: json.dumps({"model_id": self.model_id, "version_major": 2, "version_minor": 0}),
+            "text/plain": repr(self),
+        }
+
+    def _get_children(self):
+        return []
+
+    def __repr__(self):
+        return f"{type(self).__name__}({', '.join(f'{k}={v!r}' for k, v in self._state.items() if k != 'outputs')})"
+
+
+class DOMWidget(Widget):
+    _traits = {"description": "", "disabled": False}
+
+
+class _Number(DOMWidget):
+    _traits = {"continuous_update": True, "readout": True}
+    _type = float
+
+    def _validate(self, name, value):
+        if name in ("value", "min", "max", "step"):
+            value = self._type(value)
+        if name == "value":
+            minimum, maximum = self._state.get("min"), self._state.get("max")
+            if minimum is not None and value < minimum:
+                value = minimum
+            if maximum is not None and value > maximum:
+                value = maximum
+        return value
+
+    def __init__(self, value=None, **kwargs):
+        if value is not None:
+            kwargs["value"] = value
+        # The bounds come before the value in `_traits`, so the value is clamped to them.
+        super().__init__(**kwargs)
+
+
+class IntSlider(_Number):
+    _model_name = "IntSlider"
+    _traits = {"min": 0, "max": 100, "step": 1, "value": 0}
+    _type = int
+
+
+class FloatSlider(_Number):
+    _model_name = "FloatSlider"
+    _traits = {"min": 0.0, "max": 10.0, "step": 0.1, "value": 0.0}
+
+
+class Checkbox(DOMWidget):
+    _model_name = "Checkbox"
+    _traits = {"value": False}
+
+    def __init__(self, value=None, **kwargs):
+        if value is not None:
+            kwargs["value"] = value
+        super().__init__(**kwargs)
+
+    def _validate(self, name, value):
+        return bool(value) if name == "value" else value
+
+
+class Text(DOMWidget):
+    _model_name = "Text"
+    _traits = {"value": "", "placeholder": "", "continuous_update": True}
+
+    def __init__(self, value=None, **kwargs):
+        if value is not None:
+            kwargs["value"] = value
+        super().__init__(**kwargs)
+
+    def _validate(self, name, value):
+        return str(value) if name == "value" else value
+
+
+class Dropdown(DOMWidget):
+    """A selection from `options`, which are values (labelled by their `str`), `(label, value)` pairs or a dict.
+
+    Only the labels and the selected index are synced, so the options can be any Python objects.
+    """
+
+    _model_name = "Dropdown"
+    _traits = {"_options_labels": [], "index": None}
+
+    def __init__(self, options=(), value=None, index=None, **kwargs):
+        pairs = self._to_pairs(options)
+        object.__setattr__(self, "_options", pairs)
+        super().__init__(_options_labels=[label for label, _ in pairs], index=0 if pairs else None, **kwargs)
+        if index is not None:
+            self.index = index
+        elif value is not None:
+            self.value = value
+
+    @staticmethod
+    def _to_pairs(options):
+        pairs = list(options.items()) if isinstance(options, dict) else list(options)
+        return [pair if isinstance(pair, tuple) and len(pair) == 2 else (str(pair), pair) for pair in pairs]
+
+    @property
+    def options(self):
+        return self._options
+
+    @options.setter
+    def options(self, options):
+        pairs = self._to_pairs(options)
+        old_value = self.value
+        object.__setattr__(self, "_options", pairs)
+        self._state["_options_labels"] = [label for label, _ in pairs]
+        self._state["index"] = 0 if pairs else None
+        self._send_state(["_options_labels", "index"])
+        if self.value is not old_value:
+            super()._notify("value", old_value, self.value)
+
+    def _get_option(self, index, part):
+        return None if index is None else self._options[index][part]
+
+    @property
+    def value(self):
+        return self._get_option(self._state["index"], 1)
+
+    @value.setter
+    def value(self, value):
+        for i, (_, option) in enumerate(self._options):
+            if option == value:
+                self.index = i
+                return
+        raise ValueError(f"{value!r} is not one of the options")
+
+    @property
+    def label(self):
+        return self._get_option(self._state["index"], 0)
+
+    def _validate(self, name, value):
+        if name == "index" and value is not None:
+            value = int(value)
+            if not 0 <= value < len(self._state.get("_options_labels", [])):
+                raise ValueError(f"Index {value} is out of range")
+        return value
+
+    def _notify(self, name, old, new):
+        super()._notify(name, old, new)
+        # `value` and `label` follow the index.
+        if name == "index":
+            super()._notify("value", self._get_option(old, 1), self._get_option(new, 1))
+            super()._notify("label", self._get_option(old, 0), self._get_option(new, 0))
+
+
+class Button(DOMWidget):
+    _model_name = "Button"
+    _traits = {"button_style": "", "tooltip": ""}
+
+    def __init__(self, **kwargs):
+        super().__init__(**kwargs)
+        object.__setattr__(self, "_click_handlers", [])
+
+    def on_click(self, callback, remove=False):
+        """Calls `callback` with the button whenever it is clicked."""
+        if remove:
+            self._click_handlers.remove(callback)
+        else:
+            self._click_handlers.append(callback)
+
+    def click(self):
+        for callback in list(self._click_handlers):
+            callback(self)
+
+    def _handle_custom_message(self, content):
+        if content.get("event") == "click":
+            self.click()
+
+
+class Box(DOMWidget):
+    _model_name = "Box"
+    _traits = {"children": ()}
+
+    def __init__(self, children=(), **kwargs):
+        super().__init__(children=tuple(children), **kwargs)
+
+    def _validate(self, name, value):
+        if name == "children":
+            value = tuple(value)
+            if not all(isinstance(child, Widget) for child in value):
+                raise TypeError("The children of a box have to be widgets")
+        return value
+
+    def _get_children(self):
+        return self.children
+
+
+class HBox(Box):
+    _model_name = "HBox"
+
+
+class VBox(Box):
+    _model_name = "VBox"
+
+
+class _OutputStream:
+    def __init__(self, widget, name):
+        self.widget = widget
+        self.name = name
+
+    def write(self, text):
+        self.widget._append({"output_type": "stream", "name": self.name, "text": text})
+        return len(text)
+
+    def flush(self):
+        pass
+
+
+class _OutputCollector:
+    """Takes the place of the `%%capture` list, so `display` calls within an `Output` end up in it."""
+
+    def __init__(self, widget):
+        self.widget = widget
+
+    def append(self, bundle):
+        self.widget._append({"output_type": "display_data", "data": bundle})
+
+
+class Output(DOMWidget):
+    """Shows the output produced within a `with` block, in nbformat's format (stream and display_data outputs)."""
+
+    _model_name = "Output"
+    _traits = {"outputs": ()}
+
+    def __init__(self, **kwargs):
+        super().__init__(**kwargs)
+        object.__setattr__(self, "_clear_on_next_output", False)
+        object.__setattr__(self, "_contexts", [])
+
+    def _append(self, output):
+        outputs = [] if self._clear_on_next_output else list(self.outputs)
+        object.__setattr__(self, "_clear_on_next_output", False)
+        last = outputs[-1] if outputs else {}
+        if output["output_type"] == "stream" and last.get("output_type") == "stream" and last["name"] == output["name"]:
+            outputs[-1] = {**last, "text": last["text"] + output["text"]}
+        else:
+            outputs.append(output)
+        self.outputs = tuple(outputs)
+
+    def append_stdout(self, text):
+        self._append({"output_type": "stream", "name": "stdout", "text": text})
+
+    def append_stderr(self, text):
+        self._append({"output_type": "stream", "name": "stderr", "text": text})
+
+    def append_display_data(self, obj):
+        self._append({"output_type": "display_data", "data": get_mimebundle(obj)})
+
+    def clear_output(self, wait=False):
+        if wait:
+            object.__setattr__(self, "_clear_on_next_output", True)
+        else:
+            self.outputs = ()
+
+    def __enter__(self):
+        stack = contextlib.ExitStack()
+        stack.enter_context(contextlib.redirect_stdout(_OutputStream(self, "stdout")))
+        stack.enter_context(contextlib.redirect_stderr(_OutputStream(self, "stderr")))
+        stack.callback(captured_outputs.reset, captured_outputs.set(_OutputCollector(self)))
+        self._contexts.append(stack)
+        return self
+
+    def __exit__(self, exc_type, exc_value, tb):
+        self._contexts.pop().close()
+        if exc_type is not None and not issubclass(exc_type, (KeyboardInterrupt, SystemExit)):
+            # Shown in the widget like Jupyter does, instead of failing the cell or callback.
+            self.append_stderr("".join(traceback.format_exception(exc_type, exc_value, tb)))
+            return True
+        return False
+
+    def capture(self, clear_output=False, wait=False):
+        """Decorator that runs the function within this output."""
+
+        def decorator(fn):
+            def wrapper(*args, **kwargs):
+                if clear_output:
+                    self.clear_output(wait=wait)
+                with self:
+                    return fn(*args, **kwargs)
+
+            return wrapper
+
+        return decorator
+
+
+def _slider(name, minimum, maximum, step, value):
+    """An int slider if all numbers are ints, a float slider otherwise. Starts in the middle without a value."""
+    is_float = any(isinstance(v, float) for v in (minimum, maximum, step, value))
+    if step is None:
+        step = (maximum - minimum) / 100 if is_float else 1
+    if value is None:
+        value = (minimum + maximum) / 2
+    cls = FloatSlider if is_float else IntSlider
+    return cls(value=value, min=minimum, max=maximum, step=step, description=name)
+
+
+def _widget_from_abbreviation(name, abbreviation, default):
+    """Picks a control for an argument of `interact`, following the same conventions as ipywidgets."""
+    if isinstance(abbreviation, Widget):
+        return abbreviation
+    if isinstance(abbreviation, bool):
+        return Checkbox(value=abbreviation, description=name)
+    if isinstance(abbreviation, str):
+        return Text(value=abbreviation, description=name)
+    if isinstance(abbreviation, tuple) and 2 <= len(abbreviation) <= 3 and all(
+        isinstance(v, (int, float)) and not isinstance(v, bool) for v in abbreviation
+    ):
+        minimum, maximum = abbreviation[0], abbreviation[1]
+        value = default if isinstance(default, (int, float)) and not isinstance(default, bool) else None
+        return _slider(name, minimum, maximum, abbreviation[2] if len(abbreviation) == 3 else None, value)
+    if isinstance(abbreviation, (int, float)):
+        if abbreviation > 0:
+            minimum, maximum = -abbreviation, 3 * abbreviation
+        elif abbreviation < 0:
+            minimum, maximum = 3 * abbreviation, -abbreviation
+        else:
+            minimum, maximum = 0, 1
+        return _slider(name, minimum, maximum, None, abbreviation)
+    if isinstance(abbreviation, (list, tuple, dict)):
+        dropdown = Dropdown(options=abbreviation, description=name)
+        if default is not inspect.Parameter.empty:
+            with contextlib.suppress(ValueError):
+                dropdown.value = default
+        return dropdown
+    raise ValueError(f"Cannot make a control for argument {name!r} from {abbreviation!r}")
+
+
+def interact(__interact_f=None, **kwargs):
+    """Shows controls for the arguments of `f` and calls it again whenever one of them changes.
+
+    Each keyword argument says which control to use: `(min, max[, step])` for a slider, a list for a dropdown, a bool
+    for a checkbox and a string for a text field. Arguments of `f` with a default value get a control for that value.
+    What `f` prints, displays or returns is shown below the controls. Can be used as a decorator, with or without
+    arguments. Returns `f`.
+    """
+
+    def decorator(f):
+        parameters = inspect.signature(f).parameters
+        abbreviations = {
+            name: parameter.default
+            for name, parameter in parameters.items()
+            if parameter.default is not inspect.Parameter.empty
+            and parameter.kind in (parameter.POSITIONAL_OR_KEYWORD, parameter.KEYWORD_ONLY)
+        }
+        abbreviations.update(kwargs)
+        controls = {
+            name: _widget_from_abbreviation(
+                name, abbreviation, parameters[name].default if name in parameters else inspect.Parameter.empty
+            )
+            for name, abbreviation in abbreviations.items()
+        }
+        output = Output()
+
+        def update(change=None):
+            output.clear_output(wait=True)
+            with output:
+                result = f(**{name: control.value for name, control in controls.items()})
+                if result is not None:
+                    display(result)
+
+        for control in controls.values():
+            control.observe(update, names="value")
+        display(VBox(list(controls.values()) + [output]))
+        update()
+        return f
+
+    if __interact_f is not None:
+        return decorator(__interact_f)
+    return decorator
+
+
+__all__ = [
+    "Box",
+    "Button",
+    "Checkbox",
+    "DOMWidget",
+    "Dropdown",
+    "FloatSlider",
+    "HBox",
+    "IntSlider",
+    "Output",
+    "Text",
+    "VBox",
+    "Widget",
+    "interact",
+]
@@ -0,0 +1,162 @@
+import { Pyodide } from "./typings";
+
+// @ts-ignore
+import initPy from "./python/starboard/__init__.py";
+// @ts-ignore
+import bridgePy from "./python/starboard/_bridge.py";
+// @ts-ignore
+import completionPy from "./python/starboard/_completion.py";
+// @ts-ignore
+import dependenciesPy from "./python/starboard/_dependencies.py";
+// @ts-ignore
+import displayPy from "./python/starboard/_display.py";
+// @ts-ignore
+import inspectorPy from "./python/starboard/_inspector.py";
+// @ts-ignore
+import magicsPy from "./python/starboard/_magics.py";
+// @ts-ignore
+import matplotlibPy from "./python/starboard/_matplotlib.py";
+// @ts-ignore
+import modulesPy from "./python/starboard/_modules.py";
+// @ts-ignore
+import namespacesPy from "./python/starboard/_namespaces.py";
+// @ts-ignore
+import packagesPy from "./python/starboard/_packages.py";
+// @ts-ignore
+import reprPy from "./python/starboard/_repr.py";
+// @ts-ignore
+import streamPy from "./python/starboard/_stream.py";
+// @ts-ignore
+import widgetsPy from "./python/starboard/widgets.py";
+
+/**
+ * Directory in the virtual filesystem that gets added to `sys.path`, it contains the `starboard` Python package.
+ */
+export const STARBOARD_PYTHON_LIB_DIR = "/lib/starboard";
+
+/**
+ * Source files of the `starboard` Python package, keyed by their path within the package.
+ */
+const STARBOARD_PYTHON_PACKAGE: Record<string, string> = {
+  "__init__.py": initPy,
+  "_bridge.py": bridgePy,
+  "_completion.py": completionPy,
+  "_dependencies.py": dependenciesPy,
+  "_display.py": displayPy,
+  "_inspector.py": inspectorPy,
+  "_magics.py": magicsPy,
+  "_matplotlib.py": matplotlibPy,
+  "_modules.py": modulesPy,
+  "_namespaces.py": namespacesPy,
+  "_packages.py": packagesPy,
+  "_repr.py": reprPy,
+  "_stream.py": streamPy,
+  "widgets.py": widgetsPy,
+};
+
+/**
+ * Writes the `starboard` Python package into the virtual filesystem of a freshly loaded interpreter and imports it.
+ * The `displayHelpers`, `streamHelpers`, `packageHelpers`, `bridgeHelpers` and `widgetHelpers` it calls into must be attached to the `pyodide` global before it is used.
+ */
+export function installStarboardPythonPackage(pyodide: Pyodide) {
+  const FS = pyodide._module.FS;
+  const packageDir = `${STARBOARD_PYTHON_LIB_DIR}/starboard`;
+
+  FS.mkdirTree(packageDir);
+  for (const [path, source] of Object.entries(STARBOARD_PYTHON_PACKAGE)) {
+    FS.writeFile(`${packageDir}/${path}`, source);
+  }
+
+  pyodide._module.runPythonSimple(`import importlib
+import sys
+if "${STARBOARD_PYTHON_LIB_DIR}" not in sys.path:
+  sys.path.insert(0, "${STARBOARD_PYTHON_LIB_DIR}")
+importlib.invalidate_caches()
+import starboard
+`);
+}
+
+function pythonToJs(val: any): any {
+  if (val instanceof Map) {
+    const obj: Record<string, any> = {};
+    val.forEach((v, k) => (obj[k] = pythonToJs(v)));
+    return obj;
+  } else if (Array.isArray(val)) {
+    return val.map(pythonToJs);
+  }
+  return val;
+}
+
+/**
+ * Calls a function of the `starboard` Python package by its dotted path (e.g. `starboard._repr.get_mimebundle`).
+ * The result is converted to plain Javascript values, dicts become objects.
+ */
+export function callStarboardPython(pyodide: Pyodide, path: string, ...args: any[]) {
+  // Evaluated as an expression so it doesn't bind any names in the user's global namespace.
+  const fn = pyodide.runPython(getFunctionExpression(path));
+  try {
+    return toJsAndDestroy(pyodide, fn(...args));
+  } finally {
+    fn.destroy();
+  }
+}
+
+/**
+ * Like `callStarboardPython`, for async functions. The arguments have to be JSON serializable.
+ */
+export async function callStarboardPythonAsync(pyodide: Pyodide, path: string, ...args: any[]) {
+  const jsonArgs = JSON.stringify(JSON.stringify(args));
+  const result = await pyodide.runPythonAsync(
+    `await ${getFunctionExpression(path)}(*__import__("json").loads(${jsonArgs}))`
+  );
+  return toJsAndDestroy(pyodide, result);
+}
+
+/**
+ * Runs code like `pyodide.runPythonAsync` does, in the globals of a namespace of `starboard._namespaces`. Without a
+ * namespace that is the globals of `__main__`. The result is returned as is, PyProxies included.
+ * The packages for the imports of the `importSource` are loaded as well, see `CellMagicResult`.
+ */
+export async function runPythonInNamespace(
+  pyodide: Pyodide,
+  code: string,
+  namespace?: string,
+  messageCallback?: (msg: any) => void,
+  importSource?: string
+) {
+  if (importSource !== undefined) {
+    await pyodide.loadPackagesFromImports(importSource, messageCallback);
+  }
+  if (!namespace) {
+    return pyodide.runPythonAsync(code, messageCallback);
+  }
+
+  await pyodide.loadPackagesFromImports(code, messageCallback);
+  const getNamespace = pyodide.runPython(getFunctionExpression("starboard._namespaces.get"));
+  const globals = getNamespace(namespace);
+  getNamespace.destroy();
+  const coroutine = pyodide.pyodide_py.eval_code_async(code, globals);
+  try {
+    return await coroutine;
+  } finally {
+    coroutine.destroy();
+    globals.destroy();
+  }
+}
+
+function getFunctionExpression(path: string) {
+  const moduleName = path.substring(0, path.lastIndexOf("."));
+  const functionName = path.substring(path.lastIndexOf(".") + 1);
+  return `__import__("${moduleName}", fromlist=["${functionName}"]).${functionName}`;
+}
+
+function toJsAndDestroy(pyodide: Pyodide, result: any) {
+  if (pyodide.isPyProxy(result)) {
+    try {
+      return pythonToJs(result.toJs());
+    } finally {
+      result.destroy();
+    }
+  }
+  return result;
+}
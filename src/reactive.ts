@@ -0,0 +1,213 @@
+import type { Cell, Runtime } from "starboard-notebook/dist/src/types";
+import { getPyodideLoadingStatus, subscribeToPyodideLoadingStatus } from "./global";
+import { cancelQueuedPythonRun, getPythonRunQueue } from "./lock";
+import { transformLineMagics } from "./magics";
+import { getCellModuleName } from "./modules";
+import { getCellNamespace } from "./namespaces";
+import { getPluginOpts } from "./opts";
+import { extractPipInstalls } from "./packages";
+import { callStarboardPython } from "./pythonPackage";
+import { PYTHON_CELL_TYPES } from "./util";
+import { analyzeCodeInWorker } from "./workerClient";
+
+/**
+ * Reactive re-execution: when a Python cell is run, the cells that use the globals it defines can be marked stale or
+ * be run again. Which globals a cell defines and references is found by static analysis of its code, see
+ * `starboard._dependencies`. Only cells below the cell that was run depend on it, like when running a notebook from
+ * top to bottom, so there are no cycles and notebook order is a topological order. Only cells in the same namespace
+ * depend on each other.
+ */
+
+export type PythonReactiveMode = "off" | "mark-stale" | "auto-run";
+
+export interface PythonCellDependencies {
+  defines: string[];
+  references: string[];
+}
+
+export interface DependentPythonCell {
+  cell: Cell;
+  /**
+   * The globals the cell uses that were defined by the cell that was run (or by another dependent cell).
+   */
+  names: string[];
+}
+
+let reactiveMode: PythonReactiveMode | undefined = undefined;
+// Stale cells, with the names of the globals that changed since they ran.
+const staleCells = new Map<string, string[]>();
+// Cells that were queued because a cell they depend on was run, they don't trigger their dependents again.
+const autoRunCellIds = new Set<string>();
+const reactiveListeners = new Set<() => void>();
+
+// Keyed by code, so analysis only happens again once a cell is edited.
+const analysisCache = new Map<string, PythonCellDependencies | null>();
+const MAX_CACHED_ANALYSES = 500;
+
+function notifyReactiveListeners() {
+  reactiveListeners.forEach((listener) => listener());
+}
+
+/**
+ * Called whenever the mode changes or cells become stale (or are no longer stale).
+ */
+export function subscribeToPythonReactivity(listener: () => void) {
+  reactiveListeners.add(listener);
+}
+
+export function unsubscribeFromPythonReactivity(listener: () => void) {
+  reactiveListeners.delete(listener);
+}
+
+export function getPythonReactiveMode(): PythonReactiveMode {
+  return reactiveMode ?? getPluginOpts().reactive ?? "off";
+}
+
+export function setPythonReactiveMode(mode: PythonReactiveMode) {
+  reactiveMode = mode;
+  if (mode === "off") {
+    staleCells.clear();
+  }
+  notifyReactiveListeners();
+}
+
+/**
+ * The globals that changed since the cell ran, or undefined if the cell isn't stale.
+ */
+export function getStalePythonCellNames(cellId: string) {
+  return staleCells.get(cellId);
+}
+
+// Module cells don't run in the globals, see `modules.ts`.
+function isPythonCell(cell: Cell) {
+  return PYTHON_CELL_TYPES.includes(cell.cellType) && getCellModuleName(cell) === undefined;
+}
+
+/**
+ * The Python code the cell amounts to once its magics are rewritten. The body of a cell magic such as `%%time` runs
+ * in the globals like any other code, the bodies of magics that don't run Python simply fail to parse.
+ */
+async function getAnalyzableCode(code: string) {
+  const lines = extractPipInstalls(code).code.split("\n");
+  if (lines[0].trimStart().startsWith("%%")) {
+    lines[0] = "";
+  }
+  return transformLineMagics(lines.join("\n"));
+}
+
+/**
+ * Returns undefined if the interpreter isn't loaded, and null if the code can't be parsed.
+ */
+export async function analyzePythonCell(code: string): Promise<PythonCellDependencies | null | undefined> {
+  if (getPyodideLoadingStatus() !== "ready") {
+    return undefined;
+  }
+
+  const analyzableCode = await getAnalyzableCode(code);
+  if (!analysisCache.has(analyzableCode)) {
+    const json = getPluginOpts().runInWorker
+      ? await analyzeCodeInWorker(analyzableCode)
+      : callStarboardPython(window.pyodide, "starboard._dependencies.analyze", analyzableCode);
+    if (analysisCache.size >= MAX_CACHED_ANALYSES) {
+      analysisCache.clear();
+    }
+    analysisCache.set(analyzableCode, JSON.parse(json));
+  }
+  return analysisCache.get(analyzableCode);
+}
+
+/**
+ * The Python cells below the given cell that use globals it defines, directly or through other dependent cells.
+ * They are in notebook order, which is the order they have to run in. A cell that redefines a global without being
+ * dependent itself hides the earlier definition from the cells below it.
+ */
+export async function getDependentPythonCells(runtime: Runtime, cellId: string): Promise<DependentPythonCell[]> {
+  const sourceCell = runtime.content.cells.find((cell) => cell.id === cellId);
+  // Cells in other namespaces don't see the globals of the cell.
+  const cells = runtime.content.cells.filter(
+    (cell) => isPythonCell(cell) && sourceCell && getCellNamespace(cell) === getCellNamespace(sourceCell)
+  );
+  const index = cells.findIndex((cell) => cell.id === cellId);
+  const source = index === -1 ? undefined : await analyzePythonCell(cells[index].textContent);
+  if (!source) {
+    return [];
+  }
+
+  const changedNames = new Set(source.defines);
+  const dependents: DependentPythonCell[] = [];
+  for (const cell of cells.slice(index + 1)) {
+    if (changedNames.size === 0) {
+      break;
+    }
+    const dependencies = await analyzePythonCell(cell.textContent);
+    if (!dependencies) {
+      continue;
+    }
+
+    const names = dependencies.references.filter((name) => changedNames.has(name));
+    if (names.length > 0) {
+      dependents.push({ cell, names });
+      dependencies.defines.forEach((name) => changedNames.add(name));
+    } else {
+      dependencies.defines.forEach((name) => changedNames.delete(name));
+    }
+  }
+  return dependents;
+}
+
+function cancelAutoRuns() {
+  for (const entry of getPythonRunQueue()) {
+    if (entry.state === "pending" && entry.cellId !== undefined && autoRunCellIds.has(entry.cellId)) {
+      cancelQueuedPythonRun(entry.id);
+    }
+  }
+  autoRunCellIds.clear();
+}
+
+/**
+ * Called by the cell handler once a run of a Python cell has ended. Marks the cells that depend on it stale, or
+ * queues them to run again.
+ */
+export async function handlePythonCellRunEnd(runtime: Runtime, cell: Cell, succeeded: boolean) {
+  const wasAutoRun = autoRunCellIds.delete(cell.id);
+  if (succeeded) {
+    staleCells.delete(cell.id);
+  } else if (wasAutoRun) {
+    // The cells after a failed one would most likely fail as well, they stay stale instead.
+    cancelAutoRuns();
+  }
+  notifyReactiveListeners();
+
+  const mode = getPythonReactiveMode();
+  if (!succeeded || wasAutoRun || mode === "off") {
+    return;
+  }
+
+  // Cells that are waiting to run already run after this one, such as during Run all. Taken before the analysis, as
+  // they may have started running by the time it is done.
+  const pendingCellIds = new Set(
+    getPythonRunQueue()
+      .filter((entry) => entry.state === "pending")
+      .map((entry) => entry.cellId)
+  );
+  // The analysis only parses code, so it doesn't wait for the run lock behind the cells that are waiting to run.
+  const dependents = await getDependentPythonCells(runtime, cell.id);
+  for (const dependent of dependents) {
+    staleCells.set(dependent.cell.id, dependent.names);
+    if (mode === "auto-run" && !pendingCellIds.has(dependent.cell.id)) {
+      autoRunCellIds.add(dependent.cell.id);
+      // Each run queues up for the run lock right away, so they run in notebook order.
+      //@ts-ignore
+      runtime.controls.runCell({ id: dependent.cell.id });
+    }
+  }
+  notifyReactiveListeners();
+}
+
+subscribeToPyodideLoadingStatus((status) => {
+  if (status === "unstarted") {
+    staleCells.clear();
+    autoRunCellIds.clear();
+    notifyReactiveListeners();
+  }
+});
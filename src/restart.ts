@@ -0,0 +1,46 @@
+import { loadPyodide, resetPythonGlobals, unloadPyodide } from "./global";
+import { refreshPythonVariables } from "./inspector";
+import { abandonUnresponsivePython, interruptPython } from "./interrupt";
+import { withPythonRunLock } from "./lock";
+import { getPluginOpts } from "./opts";
+import { terminateWorker } from "./workerClient";
+
+export interface RestartPythonOptions {
+  /**
+   * Only restore the Python globals to their initial state instead of booting a new interpreter.
+   * This is a lot faster, but loaded packages and modules stay imported.
+   */
+  resetGlobalsOnly?: boolean;
+}
+
+/**
+ * Restarts the Python interpreter without reloading the page. Running code is interrupted first, after which the
+ * restart waits for it to finish. Code that didn't respond to an earlier interrupt isn't waited for.
+ */
+export async function restartPython(opts: RestartPythonOptions = {}) {
+  interruptPython();
+
+  if (getPluginOpts().runInWorker && !opts.resetGlobalsOnly) {
+    // No need to wait for the running code, the cell it belongs to gets an error once the worker is terminated.
+    terminateWorker();
+  }
+  if (!opts.resetGlobalsOnly) {
+    // Code that didn't respond to an interrupt holds on to the run lock, it goes away with the interpreter.
+    abandonUnresponsivePython();
+  }
+
+  await withPythonRunLock(
+    async () => {
+      if (opts.resetGlobalsOnly) {
+        await resetPythonGlobals();
+        // A new interpreter refreshes the variable inspector by itself once it is loaded.
+        await refreshPythonVariables();
+        return;
+      }
+
+      unloadPyodide();
+      await loadPyodide();
+    },
+    { label: opts.resetGlobalsOnly ? "Resetting globals" : "Restarting Python" }
+  );
+}
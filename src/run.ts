@@ -1,115 +1,319 @@
 import { Runtime } from "starboard-notebook/dist/src/types";
-import { flatPromise } from "./flatPromise";
+import { loadPyodide, setGlobalPythonCellOutput, setupPythonSupport } from "./global";
+import { refreshPythonVariables, setInspectedPythonNamespace } from "./inspector";
+import { interruptOnAbort, PythonInterruptError, PythonUnresponsiveError, resetInterrupt } from "./interrupt";
+import { acquirePythonRunLock } from "./lock";
+import { refreshPythonFiles, savePersistentPythonFiles } from "./files";
+import { getFigureIds, releaseFiguresWhileLocked } from "./figures";
+import { applyMagics } from "./magics";
+import { getPreferredMimeType, MimeBundle } from "./mime";
+import { getModuleCellCode, getPythonModulePath, syncPythonModuleCellsWhileLocked } from "./modules";
+import { getPluginOpts } from "./opts";
+import { PythonCellOutput } from "./output";
 import {
-  loadPyodide,
-  setGlobalPythonOutputElement as setGlobalPythonHtmlOutputElement,
-  setupPythonSupport,
-} from "./global";
+  extractPipInstalls,
+  installPackagesWhileLocked,
+  PackageInstallProgress,
+  refreshLoadedPackages,
+} from "./packages";
+import { mountPythonPanel } from "./panel";
+import { destroyCellProxies, trackCellProxy } from "./proxies";
+import { callStarboardPython, runPythonInNamespace } from "./pythonPackage";
+import { restartPython } from "./restart";
+import { SavedPythonOutput, saveTraceback } from "./savedOutputs";
+import { getErrorLineInCell, parsePythonTraceback, renderPythonTraceback } from "./traceback";
 import { isPyProxy } from "./util";
+import { runPythonInWorker } from "./workerClient";
+import type { SerializedResult } from "./workerProtocol";
 
-// This is used as a mutex to prevent double execution.
-let pythonRunChain: Promise<any> = Promise.resolve();
+export interface RunStarboardPythonOptions {
+  /**
+   * Aborting cancels the run if it is still waiting for other cells (rejecting with a `PythonRunCancelledError`),
+   * or interrupts the code if it is running.
+   */
+  signal?: AbortSignal;
+  /**
+   * Called with the line of the cell's code that raised an error, and when a line in the traceback is clicked.
+   */
+  onErrorLine?: (line: number) => void;
+  /**
+   * Identifies the cell in the run queue and in the debug view of live PyProxies.
+   */
+  cellId?: string;
+  /**
+   * Called when the cell is done waiting for other cells and for the interpreter to load, and starts running.
+   */
+  onStart?: () => void;
+  /**
+   * The namespace whose globals the code runs in, see `namespaces.ts`. Without one the code shares the globals of
+   * `__main__` with all other code that runs without one.
+   */
+  namespace?: string;
+  /**
+   * Runs the code as the module of a module cell with this name instead of in the globals, see `modules.ts`.
+   */
+  module?: string;
+  /**
+   * Called with the output of the cell in the format it is saved with the notebook in (see `savedOutputs.ts`), while
+   * the cell runs (at most every half second) and once more when it is done.
+   */
+  onOutputChange?: (outputs: SavedPythonOutput[]) => void;
+}
+
+const OUTPUT_CHANGE_DELAY_MS = 500;
 
 export async function runStarboardPython(
   runtime: Runtime,
   codeToRun: string,
-  renderOutputIntoElement: HTMLElement
+  renderOutputIntoElement: HTMLElement,
+  opts: RunStarboardPythonOptions = {}
 ): Promise<any> {
   setupPythonSupport();
+  mountPythonPanel(runtime);
+  // Loading starts while the cell waits for its turn, a failure to load is shown once it is.
   const pyoPromise = loadPyodide();
-  const done = flatPromise();
-
-  const alreadyRunningPythonCodeDone = pythonRunChain.catch((_) => 0);
-  pythonRunChain = pythonRunChain.finally(() => done.promise);
-
-  // await any already executing python cells.
-  await alreadyRunningPythonCodeDone;
-
-  const outputElement = new runtime.exports.elements.ConsoleOutputElement();
-  outputElement.hook(runtime.consoleCatcher);
-
-  const htmlOutput = document.createElement("div");
-  const lit = runtime.exports.libraries.lit;
-  const html = lit.html;
+  pyoPromise.catch(() => undefined);
+  const releaseLock = await acquirePythonRunLock({ cellId: opts.cellId, label: "Running cell", signal: opts.signal });
 
-  lit.render(html`${outputElement}${htmlOutput}`, renderOutputIntoElement);
-  setGlobalPythonHtmlOutputElement(htmlOutput);
+  // The previous result of this cell is no longer shown.
+  destroyCellProxies(renderOutputIntoElement);
+  const previousFigureIds = getFigureIds(renderOutputIntoElement);
+  const output = new PythonCellOutput(runtime, renderOutputIntoElement);
+  output.hook();
+  setGlobalPythonCellOutput(output);
 
-  await pyoPromise;
+  let outputChangeTimeout: ReturnType<typeof setTimeout> | undefined = undefined;
+  const reportOutputChange = () => {
+    if (outputChangeTimeout !== undefined) {
+      clearTimeout(outputChangeTimeout);
+      outputChangeTimeout = undefined;
+    }
+    opts.onOutputChange?.(output.getSavedOutputs());
+  };
+  if (opts.onOutputChange) {
+    output.onChange = () => {
+      if (outputChangeTimeout === undefined) {
+        outputChangeTimeout = setTimeout(reportOutputChange, OUTPUT_CHANGE_DELAY_MS);
+      }
+    };
+  }
 
   let val = undefined;
   let error: any = undefined;
+  let isPythonLoaded = false;
   try {
-    pythonRunChain = window.pyodide.runPythonAsync(codeToRun);
-    val = await pythonRunChain;
-    window.$_ = val;
+    await pyoPromise;
+    isPythonLoaded = true;
+    await releaseFiguresWhileLocked(previousFigureIds);
+    opts.onStart?.();
 
-    if (val !== undefined) {
+    if (opts.signal?.aborted) {
+      throw new PythonInterruptError("Cell was cancelled before it started running.");
+    }
+
+    const pipInstalls = extractPipInstalls(codeToRun);
+    if (pipInstalls.packages.length > 0) {
+      await installPackagesWhileLocked(pipInstalls.packages, {
+        onProgress: (progress) =>
+          output.appendStream(progress.status === "error" ? "stderr" : "stdout", formatPackageProgress(progress)),
+      });
+    }
+    // Cells can import the modules of module cells that haven't run yet.
+    await syncPythonModuleCellsWhileLocked(runtime, opts.module, (name, e) =>
+      output.appendStream("stderr", `Warning: the module cell ${name} could not be reloaded:\n${e.message}\n`)
+    );
+    const magicResult =
+      opts.module !== undefined
+        ? { code: getModuleCellCode(opts.module, pipInstalls.code), importSource: pipInstalls.code }
+        : await applyMagics(pipInstalls.code, {
+            runtime,
+            appendElement: (element) => output.appendElement(element),
+          });
+
+    if ("value" in magicResult) {
+      // A cell magic that doesn't run Python, such as `%%html`.
+      val = magicResult.value;
+      window.$_ = val;
       if (val instanceof HTMLElement) {
-        htmlOutput.appendChild(val);
-      } else if (isPyProxy(val)) {
-        let hadHTMLOutput = false;
-        if (val._repr_html_ !== undefined) {
-          let result = val._repr_html_();
-          if (typeof result === "string") {
-            let div = document.createElement("div");
-            div.className = "rendered_html cell-output-html";
-            div.appendChild(new DOMParser().parseFromString(result, "text/html").body.firstChild as any);
-            htmlOutput.appendChild(div);
-            hadHTMLOutput = true;
-          }
-        } else if (val._repr_latex_ !== undefined) {
-          let result = val._repr_latex_();
-          if (typeof result === "string") {
-            let div = document.createElement("div");
-            div.className = "rendered_html cell-output-html";
-            const katex = await runtime.exports.libraries.async.KaTeX();
-            if (result.startsWith("$$")) {
-              result = result.substr(2, result.length - 3);
-              katex.render(result, div, {
-                throwOnError: false,
-                errorColor: " #cc0000",
-                displayMode: true,
-              });
-            } else if (result.startsWith("$")) {
-              result = result.substr(1, result.length - 2);
-              katex.render(result, div, {
-                throwOnError: false,
-                errorColor: " #cc0000",
-                displayMode: false,
-              });
-            }
-            htmlOutput.appendChild(div);
-            hadHTMLOutput = true;
+        output.appendElement(val);
+      } else if (val !== undefined) {
+        output.addEntry({ method: "result", data: [val] });
+      }
+    } else if (getPluginOpts().runInWorker) {
+      val = await runStarboardPythonInWorker(
+        magicResult.code,
+        magicResult.importSource,
+        output,
+        opts.namespace,
+        opts.signal
+      );
+    } else {
+      resetInterrupt();
+      callStarboardPython(window.pyodide, "starboard._stream.set_current_cell", output.id);
+      callStarboardPython(window.pyodide, "starboard._namespaces.set_current", opts.namespace);
+      try {
+        val = await interruptOnAbort(
+          runPythonInNamespace(window.pyodide, magicResult.code, opts.namespace, undefined, magicResult.importSource),
+          opts.signal
+        );
+      } finally {
+        callStarboardPython(window.pyodide, "starboard._stream.set_current_cell");
+        callStarboardPython(window.pyodide, "starboard._namespaces.set_current");
+      }
+      window.$_ = val;
+      if (isPyProxy(val)) {
+        trackCellProxy(renderOutputIntoElement, opts.cellId ?? renderOutputIntoElement.id, val);
+      }
+
+      if (val !== undefined) {
+        if (val instanceof HTMLElement) {
+          output.appendElement(val);
+        } else if (isPyProxy(val)) {
+          const bundle: MimeBundle = callStarboardPython(window.pyodide, "starboard._repr.get_mimebundle", val);
+          if (getPreferredMimeType(bundle) === "text/plain") {
+            output.addEntry({
+              method: "result",
+              data: [val],
+            });
+          } else {
+            await output.appendMimeBundle(bundle, true);
           }
-        }
-        if (!hadHTMLOutput) {
-          outputElement.addEntry({
+        } else {
+          output.addEntry({
             method: "result",
             data: [val],
           });
         }
-      } else {
-        outputElement.addEntry({
-          method: "result",
-          data: [val],
-        });
       }
     }
   } catch (e) {
     error = e;
-    outputElement.addEntry({
-      method: "error",
-      data: [`${e.name} ${e.message}`],
-    });
+    const traceback = parsePythonTraceback(
+      e.message,
+      opts.module !== undefined ? getPythonModulePath(opts.module) : undefined
+    );
+    if (!isPythonLoaded) {
+      // Such as an artifact that failed its integrity check, the cell that wanted Python is where it gets noticed.
+      output.addEntry({
+        method: "error",
+        data: [`Python could not be loaded. ${e.name}: ${e.message}`],
+      });
+    } else if (e instanceof PythonUnresponsiveError) {
+      output.appendElement(renderUnresponsiveNotice(e), {
+        output_type: "error",
+        ename: e.name,
+        evalue: e.message,
+        traceback: [`${e.name}: ${e.message}`],
+      });
+    } else if (traceback) {
+      output.appendElement(
+        renderPythonTraceback(traceback, { cellSource: codeToRun, onLineClick: opts.onErrorLine }),
+        saveTraceback(e.message)
+      );
+      const errorLine = getErrorLineInCell(traceback);
+      if (errorLine !== undefined) {
+        opts.onErrorLine?.(errorLine);
+      }
+    } else {
+      output.addEntry({
+        method: "error",
+        data: [`${e.name} ${e.message}`],
+      });
+    }
   }
 
   // Not entirely sure this has to be awaited, is any output delayed by a tick from pyodide?
-  await outputElement.unhookAfterOneTick(runtime.consoleCatcher);
-  done.resolve();
+  await output.unhookAfterOneTick();
+  setGlobalPythonCellOutput(undefined);
+  if (opts.onOutputChange) {
+    reportOutputChange();
+  }
+  if (error instanceof PythonUnresponsiveError) {
+    // The code may still be running, nothing else runs until it is done or Python is restarted.
+    error.settled.then(releaseLock);
+  } else {
+    releaseLock();
+  }
+  // Imports of the cell may have loaded packages.
+  refreshLoadedPackages();
+  // The variable inspector follows the namespace of the cell that ran last.
+  setInspectedPythonNamespace(opts.namespace);
+  refreshPythonVariables();
+  refreshPythonFiles();
+  savePersistentPythonFiles().catch((e) => console.error("Could not save the persisted files:", e));
   if (error !== undefined) {
     throw error;
   }
 
   return val;
 }
+
+function renderUnresponsiveNotice(error: PythonUnresponsiveError) {
+  const container = document.createElement("div");
+  container.className = "starboard-python-traceback";
+
+  const exception = document.createElement("div");
+  exception.className = "starboard-python-traceback-exception";
+  const excType = document.createElement("span");
+  excType.className = "starboard-python-traceback-type";
+  excType.textContent = error.name;
+  exception.append(excType, `: ${error.message} Other cells wait until it is done.`);
+
+  const restartButton = document.createElement("button");
+  restartButton.className = "starboard-python-panel-button";
+  restartButton.textContent = "Restart Python";
+  restartButton.addEventListener("click", () => {
+    restartButton.disabled = true;
+    restartPython().catch((e) => console.error("Could not restart Python:", e));
+  });
+
+  container.append(exception, restartButton);
+  return container;
+}
+
+function formatPackageProgress(progress: PackageInstallProgress) {
+  switch (progress.status) {
+    case "installing":
+      return `Installing ${progress.name}...\n`;
+    case "installed":
+      return `Installed ${progress.name}\n`;
+    case "error":
+      return `Failed to install ${progress.name}: ${progress.message}\n`;
+  }
+}
+
+/**
+ * Runs the code in the Pyodide worker, the output and result are sent back to us and rendered here.
+ * Returns the plain value of the result, or its text representation if it can't be transferred.
+ */
+async function runStarboardPythonInWorker(
+  codeToRun: string,
+  importSource: string | undefined,
+  output: PythonCellOutput,
+  namespace: string | undefined,
+  signal?: AbortSignal
+) {
+  const runPromise = runPythonInWorker(codeToRun, output.id, namespace, importSource, {
+    // Output that bypasses `sys.stdout` and `sys.stderr`, such as that of C extensions.
+    onStdout: (text) => output.appendStream("stdout", text + "\n"),
+    onStderr: (text) => output.appendStream("stderr", text + "\n"),
+  });
+  const result: SerializedResult = await interruptOnAbort(runPromise, signal);
+
+  let val: any;
+  if (result.type === "value") {
+    val = result.value;
+    if (val !== undefined) {
+      output.addEntry({ method: "result", data: [val] });
+    }
+  } else {
+    val = result.bundle["text/plain"];
+    if (getPreferredMimeType(result.bundle) === "text/plain") {
+      output.addEntry({ method: "result", data: [val] });
+    } else {
+      await output.appendMimeBundle(result.bundle, true);
+    }
+  }
+  window.$_ = val;
+  return val;
+}
@@ -0,0 +1,144 @@
+import type { Cell, Runtime } from "starboard-notebook/dist/src/types";
+import type { Message } from "starboard-notebook/dist/src/console/console";
+import { MimeBundle, renderMimeBundle } from "./mime";
+import { StreamName, StreamOutputElement } from "./stream";
+import { parsePythonTraceback, renderPythonTraceback } from "./traceback";
+import { WIDGET_VIEW_MIME_TYPE } from "./widgets";
+
+/**
+ * Outputs of Python cells are saved in the cell's metadata (under `outputs`), so a notebook that is opened again shows
+ * them without running anything. They are in the format of Jupyter's nbformat and are rendered from their mime
+ * bundles, which doesn't need Python. Restored outputs are marked stale until the cell runs again.
+ */
+
+export type SavedPythonOutput =
+  | { output_type: "stream"; name: StreamName; text: string }
+  | { output_type: "display_data" | "execute_result"; data: MimeBundle; metadata?: Record<string, any> }
+  | { output_type: "error"; ename: string; evalue: string; traceback: string[] };
+
+export function getCellSavedOutputs(cell: Cell): SavedPythonOutput[] | undefined {
+  return cell.metadata.outputs;
+}
+
+export function setCellSavedOutputs(cell: Cell, outputs: SavedPythonOutput[] | undefined) {
+  if (outputs && outputs.length > 0) {
+    cell.metadata.outputs = outputs;
+  } else {
+    delete cell.metadata.outputs;
+  }
+}
+
+/**
+ * The text of a console entry or a cell result. PyProxies are shown by their `str()`, Javascript objects as JSON.
+ */
+export function formatConsoleValue(value: any): string {
+  if (typeof value === "string") {
+    return value;
+  }
+  if (value === undefined || value === null || typeof value !== "object" || window.pyodide?.isPyProxy?.(value)) {
+    return String(value);
+  }
+  try {
+    return JSON.stringify(value);
+  } catch (e) {
+    return String(value);
+  }
+}
+
+export function saveConsoleMessage(msg: Message): SavedPythonOutput {
+  const text = msg.data.map(formatConsoleValue).join(" ");
+  if (msg.method === "result") {
+    return { output_type: "execute_result", data: { "text/plain": text } };
+  }
+  const isError = msg.method === "error" || msg.method === "warn";
+  return { output_type: "stream", name: isError ? "stderr" : "stdout", text: text + "\n" };
+}
+
+/**
+ * Widgets can't be restored without Python, their text representation is saved instead.
+ */
+export function saveMimeBundle(bundle: MimeBundle, isResult: boolean): SavedPythonOutput {
+  const data = { ...bundle };
+  delete data[WIDGET_VIEW_MIME_TYPE];
+  return { output_type: isResult ? "execute_result" : "display_data", data };
+}
+
+export function saveTraceback(raw: string): SavedPythonOutput {
+  const traceback = parsePythonTraceback(raw);
+  return {
+    output_type: "error",
+    ename: traceback?.excType ?? "Error",
+    evalue: traceback?.excMessage ?? raw,
+    traceback: raw.replace(/\n+$/, "").split("\n"),
+  };
+}
+
+/**
+ * Saves an element that was added to the output as is, as HTML. Canvases (such as those of interactive figures) are
+ * replaced by images of what they show, controls that only work while Python runs are left out.
+ */
+export function saveElement(element: HTMLElement): SavedPythonOutput {
+  const clone = element.cloneNode(true) as HTMLElement;
+  const canvases = element.querySelectorAll("canvas");
+  clone.querySelectorAll("canvas").forEach((canvas, i) => {
+    const img = document.createElement("img");
+    try {
+      img.src = canvases[i].toDataURL("image/png");
+    } catch (e) {
+      // A canvas that drew images of other origins can't be read.
+    }
+    img.width = canvases[i].width;
+    img.height = canvases[i].height;
+    canvas.replaceWith(img);
+  });
+  clone.querySelectorAll(".starboard-python-figure-actions").forEach((actions) => actions.remove());
+  return { output_type: "display_data", data: { "text/html": clone.outerHTML } };
+}
+
+// Tracebacks of IPython (such as those of imported Jupyter notebooks) are colored with ANSI escape codes.
+const ANSI_ESCAPE_REGEX = /\x1b\[[0-9;]*[A-Za-z]/g;
+
+async function renderSavedOutput(runtime: Runtime, output: SavedPythonOutput): Promise<HTMLElement | undefined> {
+  switch (output.output_type) {
+    case "stream": {
+      const stream = new StreamOutputElement(output.name);
+      stream.write(output.text);
+      return stream.element;
+    }
+    case "display_data":
+    case "execute_result": {
+      // The widgets of imported outputs don't exist.
+      const data = { ...output.data };
+      delete data[WIDGET_VIEW_MIME_TYPE];
+      return renderMimeBundle(runtime, data);
+    }
+    case "error": {
+      const raw = output.traceback.join("\n").replace(ANSI_ESCAPE_REGEX, "");
+      const traceback = parsePythonTraceback(raw);
+      if (traceback) {
+        return renderPythonTraceback(traceback);
+      }
+      const stream = new StreamOutputElement("stderr");
+      stream.write(raw || `${output.ename}: ${output.evalue}`);
+      return stream.element;
+    }
+  }
+}
+
+/**
+ * Shows the saved outputs of a cell, marked as stale.
+ */
+export async function renderSavedOutputs(runtime: Runtime, outputs: SavedPythonOutput[], element: HTMLElement) {
+  const container = document.createElement("div");
+  container.className = "starboard-python-output starboard-python-output-restored";
+  container.title = "Output of an earlier session, run the cell to update it";
+
+  const lit = runtime.exports.libraries.lit;
+  lit.render(lit.html`${container}`, element);
+  for (const output of outputs) {
+    const el = await renderSavedOutput(runtime, output);
+    if (el) {
+      container.appendChild(el);
+    }
+  }
+}
@@ -0,0 +1,43 @@
+export type StreamName = "stdout" | "stderr";
+
+/**
+ * Text written to `sys.stdout` or `sys.stderr`, shown as it is produced.
+ * A carriage return moves back to the start of the line, so progress bars that redraw themselves don't pile up.
+ */
+export class StreamOutputElement {
+  readonly name: StreamName;
+  readonly element: HTMLPreElement;
+
+  // Completed lines, and the line that is still being written which a carriage return can overwrite.
+  private completedLines: Text;
+  private currentLine: Text;
+  private pendingCarriageReturn = false;
+
+  constructor(name: StreamName) {
+    this.name = name;
+    this.element = document.createElement("pre");
+    this.element.className = `starboard-python-stream starboard-python-stream-${name}`;
+    this.completedLines = document.createTextNode("");
+    this.currentLine = document.createTextNode("");
+    this.element.append(this.completedLines, this.currentLine);
+  }
+
+  write(text: string) {
+    for (const part of text.split(/(\r\n|\n|\r)/)) {
+      if (part === "\n" || part === "\r\n") {
+        this.completedLines.appendData(this.currentLine.data + "\n");
+        this.currentLine.data = "";
+        this.pendingCarriageReturn = false;
+      } else if (part === "\r") {
+        // The line is only overwritten once new text arrives, a "\r\n" can be split over two writes.
+        this.pendingCarriageReturn = true;
+      } else if (part !== "") {
+        if (this.pendingCarriageReturn) {
+          this.currentLine.data = "";
+          this.pendingCarriageReturn = false;
+        }
+        this.currentLine.appendData(part);
+      }
+    }
+  }
+}
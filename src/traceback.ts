@@ -0,0 +1,199 @@
+/**
+ * Parsing and rendering of Python tracebacks, as found in the message of a Pyodide `PythonError`.
+ */
+
+export interface TracebackFrame {
+  filename: string;
+  lineno: number;
+  /**
+   * Name of the function, not present for syntax errors.
+   */
+  name?: string;
+  /**
+   * Source code and other indented lines (such as the caret of a SyntaxError) printed below the frame.
+   */
+  lines: string[];
+  /**
+   * Frames of Pyodide's own code that evaluates the cell, these are hidden by default.
+   */
+  isInternal: boolean;
+  /**
+   * The frame is code in the cell itself, the line number refers to a line of the cell.
+   */
+  isCell: boolean;
+}
+
+export interface PythonTraceback {
+  frames: TracebackFrame[];
+  excType: string;
+  excMessage: string;
+  raw: string;
+}
+
+// The filename Pyodide compiles code from `runPython` and `runPythonAsync` with.
+const CELL_FILENAME = "<exec>";
+const INTERNAL_FILENAME_REGEX = /\/site-packages\/pyodide\/|\/_pyodide\//;
+const FRAME_REGEX = /^  File "(.*)", line (\d+)(?:, in (.*))?$/;
+const TRACEBACK_HEADER = "Traceback (most recent call last):";
+
+/**
+ * Returns undefined if the text doesn't look like a Python traceback. The code of the cell is in the file with the
+ * given name, which is a module's for module cells (see `modules.ts`). Frames before the first frame in such a file
+ * are the code that imported the module, they are hidden like Pyodide's.
+ */
+export function parsePythonTraceback(raw: string, cellFilename = CELL_FILENAME): PythonTraceback | undefined {
+  let lines = raw.replace(/\n+$/, "").split("\n");
+
+  // For chained exceptions only the last traceback is structured, the full text is still available as raw.
+  const lastHeader = lines.lastIndexOf(TRACEBACK_HEADER);
+  if (lastHeader !== -1) {
+    lines = lines.slice(lastHeader + 1);
+  }
+
+  const frames: TracebackFrame[] = [];
+  let i = 0;
+  for (; i < lines.length; i++) {
+    const match = FRAME_REGEX.exec(lines[i]);
+    if (match) {
+      const filename = match[1];
+      frames.push({
+        filename,
+        lineno: parseInt(match[2]),
+        name: match[3],
+        lines: [],
+        isInternal: INTERNAL_FILENAME_REGEX.test(filename),
+        isCell: filename === cellFilename,
+      });
+    } else if (frames.length > 0 && lines[i].startsWith("    ")) {
+      frames[frames.length - 1].lines.push(lines[i].substring(4));
+    } else if (frames.length > 0 || lastHeader !== -1) {
+      break;
+    }
+  }
+
+  const exceptionText = lines.slice(i).join("\n");
+  const separator = exceptionText.indexOf(":");
+  if (frames.length === 0 || exceptionText === "") {
+    return undefined;
+  }
+  const firstCellFrame = frames.findIndex((frame) => frame.isCell);
+  if (cellFilename !== CELL_FILENAME && firstCellFrame !== -1) {
+    frames.slice(0, firstCellFrame).forEach((frame) => (frame.isInternal = true));
+  }
+
+  return {
+    frames,
+    excType: separator === -1 ? exceptionText : exceptionText.substring(0, separator),
+    excMessage: separator === -1 ? "" : exceptionText.substring(separator + 1).trim(),
+    raw,
+  };
+}
+
+/**
+ * The line of the cell's code the exception was raised from, that is the innermost frame that is in the cell.
+ */
+export function getErrorLineInCell(traceback: PythonTraceback): number | undefined {
+  const cellFrames = traceback.frames.filter((f) => f.isCell);
+  return cellFrames.length > 0 ? cellFrames[cellFrames.length - 1].lineno : undefined;
+}
+
+export interface RenderTracebackOptions {
+  /**
+   * Code of the cell, used to show the source of frames in the cell (Pyodide has no source for those).
+   */
+  cellSource?: string;
+  onLineClick?: (line: number) => void;
+}
+
+function renderFrame(frame: TracebackFrame, opts: RenderTracebackOptions = {}) {
+  const onLineClick = opts.onLineClick;
+  const div = document.createElement("div");
+  div.className = "starboard-python-traceback-frame";
+
+  const location = document.createElement(frame.isCell && onLineClick ? "a" : "span");
+  location.className = "starboard-python-traceback-location";
+  location.textContent = frame.isCell ? `Cell, line ${frame.lineno}` : `${frame.filename}, line ${frame.lineno}`;
+  if (frame.isCell && onLineClick) {
+    location.setAttribute("href", "#");
+    location.title = "Show this line in the editor";
+    location.addEventListener("click", (e) => {
+      e.preventDefault();
+      onLineClick(frame.lineno);
+    });
+  }
+  div.appendChild(location);
+
+  if (frame.name) {
+    div.append(` in ${frame.name}`);
+  }
+
+  let lines = frame.lines;
+  if (frame.isCell && lines.length === 0 && opts.cellSource !== undefined) {
+    const sourceLine = opts.cellSource.split("\n")[frame.lineno - 1];
+    lines = sourceLine !== undefined ? [sourceLine.trim()] : [];
+  }
+  if (lines.length > 0) {
+    const pre = document.createElement("pre");
+    pre.textContent = lines.join("\n");
+    div.appendChild(pre);
+  }
+  return div;
+}
+
+export function renderPythonTraceback(traceback: PythonTraceback, opts: RenderTracebackOptions = {}) {
+  const container = document.createElement("div");
+  container.className = "starboard-python-traceback";
+
+  const exception = document.createElement("div");
+  exception.className = "starboard-python-traceback-exception";
+  const excType = document.createElement("span");
+  excType.className = "starboard-python-traceback-type";
+  excType.textContent = traceback.excType;
+  exception.appendChild(excType);
+  if (traceback.excMessage) {
+    const excMessage = document.createElement("span");
+    excMessage.className = "starboard-python-traceback-message";
+    excMessage.textContent = traceback.excMessage;
+    exception.append(": ", excMessage);
+  }
+  container.appendChild(exception);
+
+  // Consecutive internal frames are collapsed into one expandable group.
+  let internalGroup: HTMLDetailsElement | undefined = undefined;
+  let internalCount = 0;
+  for (const frame of traceback.frames) {
+    if (!frame.isInternal) {
+      internalGroup = undefined;
+      container.appendChild(renderFrame(frame, opts));
+      continue;
+    }
+
+    if (!internalGroup) {
+      internalGroup = document.createElement("details");
+      internalGroup.className = "starboard-python-traceback-internal";
+      internalGroup.appendChild(document.createElement("summary"));
+      internalCount = 0;
+      container.appendChild(internalGroup);
+    }
+    internalCount++;
+    internalGroup.querySelector("summary")!.textContent = `${internalCount} internal frame${
+      internalCount === 1 ? "" : "s"
+    }`;
+    internalGroup.appendChild(renderFrame(frame));
+  }
+
+  const rawDetails = document.createElement("details");
+  rawDetails.className = "starboard-python-traceback-raw";
+  const summary = document.createElement("summary");
+  summary.textContent = "Full traceback";
+  const copyButton = document.createElement("button");
+  copyButton.className = "starboard-python-panel-button";
+  copyButton.textContent = "Copy";
+  copyButton.addEventListener("click", () => navigator.clipboard.writeText(traceback.raw));
+  const pre = document.createElement("pre");
+  pre.textContent = traceback.raw;
+  rawDetails.append(summary, copyButton, pre);
+  container.appendChild(rawDetails);
+
+  return container;
+}
@@ -2,11 +2,18 @@ export declare type Pyodide = {
   runPython(code: string, messageCallback?: (msg: any) => void, errorCallback?: (err: any) => void): any;
   runPythonAsync(code: string, messageCallback?: (msg: any) => void, errorCallback?: (err: any) => void): Promise<any>;
   loadPackage(names: string, messageCallback?: (msg: any) => void, errorCallback?: (err: any) => void): Promise<any>;
-  loadedPackages(packages: string[]): any;
+  loadPackagesFromImports(
+    code: string,
+    messageCallback?: (msg: any) => void,
+    errorCallback?: (err: any) => void
+  ): Promise<void>;
+  loadedPackages: Record<string, string>;
   globals: any;
+  pyodide_py: any;
 
   version: () => string;
   checkABI: any;
   _module: any;
   isPyProxy(v: any): boolean;
+  setInterruptBuffer(buffer: Int32Array): void;
 };
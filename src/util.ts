@@ -1,3 +1,8 @@
+/**
+ * Cell types that are handled as Python cells.
+ */
+export const PYTHON_CELL_TYPES = ["python", "python3", "ipython3", "pypy", "py"];
+
 export function isPyProxy(val: any) {
   return window.pyodide.isPyProxy(val);
 }
@@ -0,0 +1,303 @@
+import type { Runtime } from "starboard-notebook/dist/src/types";
+import { withPythonRunLock } from "./lock";
+import { registerMimeRenderer, renderMimeBundle } from "./mime";
+import { getPluginOpts } from "./opts";
+import { callStarboardPython } from "./pythonPackage";
+import { StreamOutputElement } from "./stream";
+
+/**
+ * The Javascript side of interactive widgets, see `starboard.widgets` for the Python side and the message format.
+ * Python opens a model for every widget it creates, displaying a widget renders a view of the model. Using a control
+ * updates the model and sends the change to Python, where the widget's callbacks run.
+ */
+
+export const WIDGET_VIEW_MIME_TYPE = "application/vnd.jupyter.widget-view+json";
+
+type WidgetMessageFromPython =
+  | { method: "open"; model_id: string; model_name: string; state: Record<string, any> }
+  | { method: "update"; model_id: string; state: Record<string, any> }
+  | { method: "close"; model_id: string };
+
+type WidgetMessageToPython =
+  | { method: "update"; model_id: string; state: Record<string, any> }
+  | { method: "custom"; model_id: string; content: any };
+
+interface WidgetView {
+  element: HTMLElement;
+  runtime: Runtime;
+  // Views of the children of boxes, kept so they don't get rendered from scratch on every update.
+  children: Map<string, HTMLElement>;
+  wasShown: boolean;
+}
+
+interface WidgetModel {
+  id: string;
+  name: string;
+  state: Record<string, any>;
+  views: Set<WidgetView>;
+}
+
+const models = new Map<string, WidgetModel>();
+
+// Changes of the controls that haven't been handled by Python yet, sent in one go once no other Python code runs.
+const messagesToPython: WidgetMessageToPython[] = [];
+let isFlushQueued = false;
+
+// Delivers messages to Python in the worker, set by `workerClient.ts` which can't be imported here without a cycle.
+let workerChannel: ((messagesJson: string) => Promise<void>) | undefined = undefined;
+
+export function setWidgetWorkerChannel(channel: (messagesJson: string) => Promise<void>) {
+  workerChannel = channel;
+}
+
+/**
+ * Handles a message of `starboard.widgets`, which calls this through `pyodide.widgetHelpers.send`.
+ */
+export function receiveWidgetMessage(messageJson: string) {
+  const message: WidgetMessageFromPython = JSON.parse(messageJson);
+  if (message.method === "open") {
+    models.set(message.model_id, {
+      id: message.model_id,
+      name: message.model_name,
+      state: message.state,
+      views: new Set(),
+    });
+    return;
+  }
+
+  const model = models.get(message.model_id);
+  if (!model) {
+    return;
+  }
+  if (message.method === "update") {
+    Object.assign(model.state, message.state);
+    updateViews(model);
+  } else if (message.method === "close") {
+    models.delete(model.id);
+    model.views.forEach((view) => view.element.remove());
+  }
+}
+
+/**
+ * Forgets all models, called when the interpreter is restarted. Views that are still shown stop responding.
+ */
+export function clearWidgetModels() {
+  for (const model of models.values()) {
+    model.views.forEach((view) => {
+      view.element.classList.add("starboard-python-widget-disconnected");
+      view.element.title = "Python was restarted, run the cell again to use this widget.";
+    });
+  }
+  models.clear();
+  messagesToPython.length = 0;
+}
+
+function sendToPython(message: WidgetMessageToPython) {
+  if (!models.has(message.model_id)) {
+    return;
+  }
+
+  // A slider that is dragged produces many updates, Python only needs to see the latest value.
+  const last = messagesToPython[messagesToPython.length - 1];
+  if (last && last.method === "update" && message.method === "update" && last.model_id === message.model_id) {
+    Object.assign(last.state, message.state);
+  } else {
+    messagesToPython.push(message);
+  }
+
+  if (!isFlushQueued) {
+    isFlushQueued = true;
+    withPythonRunLock(flushMessagesToPython, { label: "Widget callbacks" }).catch((e) =>
+      console.error("Error handling widget messages in Python:", e)
+    );
+  }
+}
+
+async function flushMessagesToPython() {
+  isFlushQueued = false;
+  if (messagesToPython.length === 0) {
+    return;
+  }
+
+  const messagesJson = JSON.stringify(messagesToPython.splice(0));
+  if (getPluginOpts().runInWorker) {
+    await workerChannel?.(messagesJson);
+  } else {
+    callStarboardPython(window.pyodide, "starboard.widgets._receive", messagesJson);
+  }
+}
+
+/**
+ * Updates the model right away, so all views of it show the change before Python has handled it.
+ */
+function setState(model: WidgetModel, state: Record<string, any>, sync = true) {
+  Object.assign(model.state, state);
+  updateViews(model);
+  if (sync) {
+    sendToPython({ method: "update", model_id: model.id, state });
+  }
+}
+
+function updateViews(model: WidgetModel) {
+  for (const view of model.views) {
+    // Views are dropped once they were removed from the document, such as when the cell output was cleared.
+    if (view.wasShown && !view.element.isConnected) {
+      model.views.delete(view);
+    } else {
+      renderView(model, view);
+    }
+  }
+}
+
+function createView(id: string, runtime: Runtime): HTMLElement {
+  const element = document.createElement("div");
+  element.className = "starboard-python-widget";
+
+  const model = models.get(id);
+  if (!model) {
+    element.classList.add("starboard-python-widget-disconnected");
+    element.textContent = "This widget is not available anymore, run the cell again to show it.";
+    return element;
+  }
+
+  const view: WidgetView = { element, runtime, children: new Map(), wasShown: false };
+  model.views.add(view);
+  renderView(model, view);
+  return element;
+}
+
+function getChildView(view: WidgetView, id: string) {
+  let child = view.children.get(id);
+  if (!child) {
+    child = createView(id, view.runtime);
+    view.children.set(id, child);
+  }
+  return child;
+}
+
+function formatNumber(value: number, step: number, isFloat: boolean) {
+  if (!isFloat) {
+    return String(value);
+  }
+  const decimals = step > 0 ? Math.min(Math.max(-Math.floor(Math.log10(step)), 0), 10) : 2;
+  return value.toFixed(decimals);
+}
+
+function renderView(model: WidgetModel, view: WidgetView) {
+  view.wasShown = view.wasShown || view.element.isConnected;
+  view.element.classList.add(`starboard-python-widget-${model.name.toLowerCase()}`);
+
+  if (model.name === "Output") {
+    renderOutputView(model, view);
+    return;
+  }
+
+  const lit = view.runtime.exports.libraries.lit;
+  const html = lit.html;
+  const state = model.state;
+  const description = state.description
+    ? html`<label class="starboard-python-widget-description">${state.description}</label>`
+    : undefined;
+
+  let template: any;
+  switch (model.name) {
+    case "IntSlider":
+    case "FloatSlider": {
+      const isFloat = model.name === "FloatSlider";
+      const parse = (e: Event) => Number((e.target as HTMLInputElement).value);
+      template = html`${description}<input
+          type="range"
+          min=${state.min}
+          max=${state.max}
+          step=${state.step}
+          .value=${String(state.value)}
+          ?disabled=${state.disabled}
+          @input=${(e: Event) => setState(model, { value: parse(e) }, state.continuous_update)}
+          @change=${(e: Event) => !state.continuous_update && setState(model, { value: parse(e) })}
+        />${state.readout
+          ? html`<span class="starboard-python-widget-readout">${formatNumber(state.value, state.step, isFloat)}</span>`
+          : undefined}`;
+      break;
+    }
+    case "Checkbox":
+      template = html`<label class="starboard-python-widget-description"
+        ><input
+          type="checkbox"
+          .checked=${state.value}
+          ?disabled=${state.disabled}
+          @change=${(e: Event) => setState(model, { value: (e.target as HTMLInputElement).checked })}
+        />
+        ${state.description}</label
+      >`;
+      break;
+    case "Text": {
+      const getValue = (e: Event) => (e.target as HTMLInputElement).value;
+      template = html`${description}<input
+          type="text"
+          class="form-control"
+          .value=${state.value}
+          placeholder=${state.placeholder}
+          ?disabled=${state.disabled}
+          @input=${(e: Event) => setState(model, { value: getValue(e) }, state.continuous_update)}
+          @change=${(e: Event) => !state.continuous_update && setState(model, { value: getValue(e) })}
+        />`;
+      break;
+    }
+    case "Dropdown":
+      template = html`${description}<select
+          class="form-control"
+          ?disabled=${state.disabled}
+          @change=${(e: Event) => setState(model, { index: (e.target as HTMLSelectElement).selectedIndex })}
+        >
+          ${(state._options_labels as string[]).map(
+            (label, i) => html`<option .selected=${i === state.index}>${label}</option>`
+          )}
+        </select>`;
+      break;
+    case "Button":
+      template = html`<button
+        class="btn btn-sm ${state.button_style ? `btn-${state.button_style}` : "btn-outline-secondary"}"
+        title=${state.tooltip}
+        ?disabled=${state.disabled}
+        @click=${() => sendToPython({ method: "custom", model_id: model.id, content: { event: "click" } })}
+      >
+        ${state.description}
+      </button>`;
+      break;
+    case "Box":
+    case "HBox":
+    case "VBox":
+      template = html`${(state.children as string[]).map((id) => getChildView(view, id))}`;
+      break;
+    default:
+      template = html`<span>Widgets of type ${model.name} can't be shown.</span>`;
+  }
+  lit.render(template, view.element);
+}
+
+/**
+ * The outputs are in nbformat's format, the `Output` widget only produces stream and display_data outputs.
+ */
+function renderOutputView(model: WidgetModel, view: WidgetView) {
+  view.element.textContent = "";
+  for (const output of model.state.outputs) {
+    if (output.output_type === "stream") {
+      const stream = new StreamOutputElement(output.name);
+      stream.write(output.text);
+      view.element.appendChild(stream.element);
+    } else if (output.output_type === "display_data") {
+      // Rendering can be asynchronous, a placeholder keeps the output in its position.
+      const placeholder = document.createElement("div");
+      view.element.appendChild(placeholder);
+      renderMimeBundle(view.runtime, output.data).then((el) =>
+        el ? placeholder.replaceWith(el) : placeholder.remove()
+      );
+    }
+  }
+}
+
+registerMimeRenderer({
+  mimeType: WIDGET_VIEW_MIME_TYPE,
+  priority: 100,
+  render: (data, runtime) => createView(JSON.parse(data).model_id, runtime),
+});
@@ -0,0 +1,257 @@
+/**
+ * Entrypoint of the dedicated worker Pyodide runs in when the `runInWorker` plugin option is set.
+ * This gets bundled as a classic worker script, the vendored loader needs `importScripts` to load Pyodide.
+ */
+
+import "./pyodide";
+import { ArtifactOptions, createArtifactResolver, releaseArtifactUrl } from "./artifacts";
+import {
+  deletePath,
+  listDirectory,
+  mountPersistentDirectories,
+  mountPersistentDirectory,
+  readFile,
+  savePersistentDirectories,
+  writeFile,
+} from "./filesystem";
+import { SIGINT } from "./interruptBuffer";
+import {
+  callStarboardPython,
+  callStarboardPythonAsync,
+  installStarboardPythonPackage,
+  runPythonInNamespace,
+} from "./pythonPackage";
+import type { PackageInstallStatus } from "./packages";
+import type { PyodideLoadingProgress } from "./progress";
+import type { StreamName } from "./stream";
+import type { SerializedResult, WorkerRequestMessage, WorkerResponseMessage } from "./workerProtocol";
+
+// The worker global scope, we don't include the webworker lib typings as they conflict with the DOM ones.
+const ctx: any = self;
+
+let pyodide: any;
+let interruptBuffer: Int32Array;
+let initialPythonState: any;
+
+// Copies of the variables shared with Python, encoded as JSON. The main thread has the decoded values.
+const sharedVariables = new Map<string, string>();
+
+// Output that isn't tied to a cell output (such as that of C extensions, which bypasses `sys.stdout`) and package
+// progress are attributed to the latest run or package installation. Those are serialized by the run lock of the main
+// thread, but other requests (such as the ones refreshing the variable inspector) can arrive while they are awaiting.
+let currentRequestId = 0;
+
+function post(msg: WorkerResponseMessage) {
+  ctx.postMessage(msg);
+}
+
+function reportProgress(progress: PyodideLoadingProgress) {
+  post({ type: "progress", progress });
+}
+
+async function load(artifacts: ArtifactOptions, buffer: Int32Array, persistentDirectories: string[]) {
+  pyodide = await ctx.loadPyodide({
+    indexURL: artifacts.artifactsUrl,
+    resolveArtifactUrl: createArtifactResolver(artifacts, reportProgress),
+    releaseArtifactUrl,
+    onProgress: reportProgress,
+    stdout: (text: string) => post({ type: "stdout", id: currentRequestId, text }),
+    stderr: (text: string) => post({ type: "stderr", id: currentRequestId, text }),
+  });
+
+  pyodide.matplotlibHelpers = {
+    display: (outputId: number, bundleJson: string) =>
+      post({ type: "figure", outputId, bundle: JSON.parse(bundleJson) }),
+  };
+  pyodide.streamHelpers = {
+    write: (outputId: number, name: StreamName, text: string) => post({ type: "stream", outputId, name, text }),
+  };
+  pyodide.displayHelpers = {
+    display: (outputId: number | undefined, bundleJson: string) =>
+      post({ type: "display", outputId, bundle: JSON.parse(bundleJson) }),
+    clearOutput: (outputId: number | undefined, wait: boolean) => post({ type: "clearOutput", outputId, wait }),
+  };
+  pyodide.packageHelpers = {
+    progress: (name: string, status: PackageInstallStatus, message: string) =>
+      post({
+        type: "packageProgress",
+        id: currentRequestId,
+        progress: { name, status, message: message || undefined },
+      }),
+  };
+  pyodide.bridgeHelpers = {
+    get: (name: string) => sharedVariables.get(name),
+    set: (name: string, encoded: string) => {
+      sharedVariables.set(name, encoded);
+      post({ type: "setVariable", name, encoded });
+    },
+  };
+  pyodide.widgetHelpers = {
+    send: (message: string) => post({ type: "widget", message }),
+  };
+  installStarboardPythonPackage(pyodide);
+  await mountPersistentDirectories(pyodide._module.FS, persistentDirectories);
+
+  interruptBuffer = buffer;
+  pyodide.setInterruptBuffer(interruptBuffer);
+  initialPythonState = pyodide._module.saveState();
+}
+
+function serializeResult(val: any): SerializedResult {
+  if (pyodide.isPyProxy(val)) {
+    try {
+      return { type: "mimebundle", bundle: callStarboardPython(pyodide, "starboard._repr.get_mimebundle", val) };
+    } finally {
+      val.destroy();
+    }
+  } else if (typeof val === "object" && val !== null) {
+    // Javascript objects living in the worker can't always be cloned.
+    return { type: "mimebundle", bundle: { "text/plain": String(val) } };
+  }
+  return { type: "value", value: val };
+}
+
+ctx.onmessage = async (e: MessageEvent<WorkerRequestMessage>) => {
+  const id = e.data.id;
+  const request = e.data.request;
+
+  if (request.type === "setVariable") {
+    // Handled right away, it doesn't need the interpreter which may still be loading.
+    sharedVariables.set(request.name, request.encoded);
+    post({ type: "resolve", id });
+    return;
+  }
+
+  if (request.type === "interrupt") {
+    // Only reached when the buffer isn't shared, the main thread writes into a shared buffer directly.
+    interruptBuffer[0] = SIGINT;
+    post({ type: "resolve", id });
+    return;
+  }
+
+  if (request.type === "run" || request.type === "installPackages") {
+    currentRequestId = id;
+  }
+  try {
+    let value: SerializedResult | undefined = undefined;
+    switch (request.type) {
+      case "load":
+        await load(request.artifacts, request.interruptBuffer, request.persistentDirectories);
+        break;
+      case "run":
+        // Clear interrupts that arrived after the previous run finished.
+        interruptBuffer[0] = 0;
+        callStarboardPython(pyodide, "starboard._stream.set_current_cell", request.outputId);
+        callStarboardPython(pyodide, "starboard._namespaces.set_current", request.namespace);
+        try {
+          // Messages about packages that get loaded for the imports of the code.
+          const onMessage = (text: string) => post({ type: "stdout", id, text });
+          value = serializeResult(
+            await runPythonInNamespace(pyodide, request.code, request.namespace, onMessage, request.importSource)
+          );
+        } finally {
+          callStarboardPython(pyodide, "starboard._stream.set_current_cell");
+          callStarboardPython(pyodide, "starboard._namespaces.set_current");
+        }
+        break;
+      case "installPackages":
+        value = {
+          type: "value",
+          value: await callStarboardPythonAsync(pyodide, "starboard._packages.install", request.names),
+        };
+        break;
+      case "editorHelp":
+        value = {
+          type: "value",
+          value: callStarboardPython(
+            pyodide,
+            `starboard._completion.${request.kind}`,
+            request.code,
+            request.offset,
+            request.namespace
+          ),
+        };
+        break;
+      case "listVariables":
+        value = {
+          type: "value",
+          value: callStarboardPython(pyodide, "starboard._inspector.list_variables", request.namespace),
+        };
+        break;
+      case "inspectVariable":
+        value = {
+          type: "value",
+          value: callStarboardPython(
+            pyodide,
+            "starboard._inspector.inspect_variable",
+            request.name,
+            JSON.stringify(request.path),
+            request.namespace
+          ),
+        };
+        break;
+      case "deleteVariable":
+        callStarboardPython(pyodide, "starboard._inspector.delete_variable", request.name, request.namespace);
+        break;
+      case "listNamespaces":
+        value = { type: "value", value: callStarboardPython(pyodide, "starboard._namespaces.list_namespaces") };
+        break;
+      case "deleteNamespace":
+        callStarboardPython(pyodide, "starboard._namespaces.delete", request.namespace);
+        break;
+      case "analyzeCode":
+        value = { type: "value", value: callStarboardPython(pyodide, "starboard._dependencies.analyze", request.code) };
+        break;
+      case "findStatementLines":
+        value = {
+          type: "value",
+          value: callStarboardPython(pyodide, "starboard._magics.statement_lines", request.code),
+        };
+        break;
+      case "saveFigure":
+        value = {
+          type: "value",
+          value: callStarboardPython(pyodide, "starboard._matplotlib.save", request.figureId, request.format),
+        };
+        break;
+      case "releaseFigures":
+        callStarboardPython(pyodide, "starboard._matplotlib.release", request.figureIds);
+        break;
+      case "widgetMessages":
+        callStarboardPython(pyodide, "starboard.widgets._receive", request.messages);
+        break;
+      case "getLoadedPackages":
+        value = { type: "value", value: { ...pyodide.loadedPackages } };
+        break;
+      case "listFiles":
+        value = { type: "value", value: listDirectory(pyodide._module.FS, request.path) };
+        break;
+      case "readFile":
+        value = { type: "value", value: readFile(pyodide._module.FS, request.path) };
+        break;
+      case "writeFile":
+        writeFile(pyodide._module.FS, request.path, request.data);
+        break;
+      case "deleteFile":
+        deletePath(pyodide._module.FS, request.path);
+        break;
+      case "persistDirectory":
+        value = { type: "value", value: await mountPersistentDirectory(pyodide._module.FS, request.path) };
+        break;
+      case "savePersistentFiles":
+        await savePersistentDirectories(pyodide._module.FS);
+        break;
+      case "defineModule":
+        await pyodide.loadPackagesFromImports(request.source);
+        callStarboardPython(pyodide, "starboard._modules.define", request.name, request.source, request.directory);
+        break;
+      case "resetGlobals":
+        pyodide._module.restoreState(initialPythonState);
+        callStarboardPython(pyodide, "starboard._namespaces.clear");
+        break;
+    }
+    post({ type: "resolve", id, value });
+  } catch (e) {
+    post({ type: "reject", id, error: { name: e.name, message: e.message } });
+  }
+};
@@ -0,0 +1,328 @@
+import type { ArtifactOptions } from "./artifacts";
+import type { EditorHelpKind } from "./completion";
+import type { FigureFormat } from "./figures";
+import { getPersistentDirectoryPaths, PythonFileEntry } from "./filesystem";
+import { getEncodedVariable, getSharedVariableNames, setEncodedVariable, subscribeToVariableExports } from "./bridge";
+import { flatPromise, FlatPromise } from "./flatPromise";
+import { createInterruptBuffer, SIGINT } from "./interruptBuffer";
+import type { MimeBundle } from "./mime";
+import type { PackageInstallProgress } from "./packages";
+import { emitPyodideLoadingProgress } from "./progress";
+import { getPluginOpts } from "./opts";
+import { clearCellOutput, displayInCellOutput, writeToCellOutput } from "./output";
+import { receiveWidgetMessage, setWidgetWorkerChannel } from "./widgets";
+import type { SerializedResult, WorkerRequest, WorkerResponseMessage } from "./workerProtocol";
+
+export interface WorkerOutputCallbacks {
+  onStdout: (text: string) => void;
+  onStderr: (text: string) => void;
+  onPackageProgress: (progress: PackageInstallProgress) => void;
+}
+
+let worker: Worker | undefined = undefined;
+let interruptBuffer: Int32Array | undefined = undefined;
+let lastRequestId = 0;
+
+const pendingRequests = new Map<number, FlatPromise>();
+const outputCallbacks = new Map<number, Partial<WorkerOutputCallbacks>>();
+
+function getWorker() {
+  if (!worker) {
+    const workerUrl = getPluginOpts().workerUrl || new URL("./worker.js", import.meta.url).href;
+    worker = new Worker(workerUrl);
+    worker.onmessage = (e: MessageEvent<WorkerResponseMessage>) => handleWorkerMessage(e.data);
+    // Such as a worker script that is missing, blocked or throws, nothing would answer the pending requests.
+    worker.onerror = (e: ErrorEvent) => {
+      e.preventDefault();
+      stopWorker(new Error(`The Python worker failed: ${e.message || `could not load ${workerUrl}`}`));
+    };
+    worker.onmessageerror = () => stopWorker(new Error("The Python worker sent a message that could not be read."));
+  }
+  return worker;
+}
+
+function handleWorkerMessage(msg: WorkerResponseMessage) {
+  if (msg.type === "stream") {
+    writeToCellOutput(msg.outputId, msg.name, msg.text);
+    return;
+  }
+  if (msg.type === "progress") {
+    emitPyodideLoadingProgress(msg.progress);
+    return;
+  }
+  if (msg.type === "setVariable") {
+    setEncodedVariable(msg.name, msg.encoded);
+    return;
+  }
+  if (msg.type === "figure") {
+    displayInCellOutput(msg.outputId, msg.bundle);
+    return;
+  }
+  if (msg.type === "display") {
+    if (msg.outputId !== undefined) {
+      displayInCellOutput(msg.outputId, msg.bundle);
+    } else {
+      console.log("display() called in pyodide worker but no cell is running, the output will be dropped.");
+    }
+    return;
+  }
+  if (msg.type === "clearOutput") {
+    if (msg.outputId !== undefined) {
+      clearCellOutput(msg.outputId, msg.wait);
+    }
+    return;
+  }
+  if (msg.type === "widget") {
+    receiveWidgetMessage(msg.message);
+    return;
+  }
+
+  const callbacks = outputCallbacks.get(msg.id);
+
+  switch (msg.type) {
+    case "resolve":
+    case "reject": {
+      const pending = pendingRequests.get(msg.id);
+      pendingRequests.delete(msg.id);
+      outputCallbacks.delete(msg.id);
+      if (msg.type === "resolve") {
+        pending?.resolve(msg.value);
+      } else {
+        const error = new Error(msg.error.message);
+        error.name = msg.error.name;
+        pending?.reject(error);
+      }
+      break;
+    }
+    case "stdout":
+      callbacks?.onStdout ? callbacks.onStdout(msg.text) : console.log(msg.text);
+      break;
+    case "stderr":
+      callbacks?.onStderr ? callbacks.onStderr(msg.text) : console.error(msg.text);
+      break;
+    case "packageProgress":
+      callbacks?.onPackageProgress?.(msg.progress);
+      break;
+  }
+}
+
+function sendRequest<T = any>(request: WorkerRequest, callbacks?: Partial<WorkerOutputCallbacks>): Promise<T> {
+  const id = ++lastRequestId;
+  const pending = flatPromise<T>();
+  pendingRequests.set(id, pending);
+  if (callbacks) {
+    outputCallbacks.set(id, callbacks);
+  }
+
+  getWorker().postMessage({ id, request });
+  return pending.promise;
+}
+
+/**
+ * The artifacts URL has to be absolute, relative URLs would be resolved relative to the worker script.
+ */
+export async function loadPyodideInWorker(artifacts: ArtifactOptions): Promise<void> {
+  interruptBuffer = createInterruptBuffer();
+  // Local storage, which lists the persisted directories, isn't available in the worker.
+  await sendRequest({
+    type: "load",
+    artifacts,
+    interruptBuffer,
+    persistentDirectories: getPersistentDirectoryPaths(),
+  });
+
+  // A fresh worker doesn't know about the variables that were shared so far.
+  for (const name of getSharedVariableNames()) {
+    sendRequest({ type: "setVariable", name, encoded: getEncodedVariable(name)! });
+  }
+}
+
+export function runPythonInWorker(
+  code: string,
+  outputId: number,
+  namespace: string | undefined,
+  importSource: string | undefined,
+  callbacks: Omit<WorkerOutputCallbacks, "onPackageProgress">
+): Promise<SerializedResult> {
+  return sendRequest<SerializedResult>({ type: "run", code, outputId, namespace, importSource }, callbacks);
+}
+
+/**
+ * Returns a JSON object of the packages that failed to install, see `starboard._packages.install`.
+ */
+export async function installPackagesInWorker(
+  names: string[],
+  onPackageProgress: (progress: PackageInstallProgress) => void
+): Promise<string> {
+  const result = await sendRequest<SerializedResult>({ type: "installPackages", names }, { onPackageProgress });
+  return result.type === "value" ? result.value : "{}";
+}
+
+/**
+ * Completion and documentation for the cell editor, see `completion.ts`.
+ */
+export async function requestEditorHelpInWorker(
+  kind: EditorHelpKind,
+  code: string,
+  offset: number,
+  namespace?: string
+): Promise<any> {
+  const result = await sendRequest<SerializedResult>({ type: "editorHelp", kind, code, offset, namespace });
+  return result.type === "value" ? result.value : undefined;
+}
+
+/**
+ * The variable inspector, these return JSON as documented in `starboard._inspector`.
+ */
+export async function listVariablesInWorker(namespace?: string): Promise<string> {
+  const result = await sendRequest<SerializedResult>({ type: "listVariables", namespace });
+  return result.type === "value" ? result.value : "[]";
+}
+
+export async function inspectVariableInWorker(name: string, path: number[], namespace?: string): Promise<string> {
+  const result = await sendRequest<SerializedResult>({ type: "inspectVariable", name, path, namespace });
+  return result.type === "value" ? result.value : "null";
+}
+
+export async function deleteVariableInWorker(name: string, namespace?: string) {
+  await sendRequest({ type: "deleteVariable", name, namespace });
+}
+
+/**
+ * Returns the JSON encoded ids of the namespaces, see `starboard._namespaces.list_namespaces`.
+ */
+export async function listNamespacesInWorker(): Promise<string> {
+  const result = await sendRequest<SerializedResult>({ type: "listNamespaces" });
+  return result.type === "value" ? result.value : "[]";
+}
+
+export async function deleteNamespaceInWorker(namespace: string) {
+  await sendRequest({ type: "deleteNamespace", namespace });
+}
+
+/**
+ * Returns the JSON encoded globals the code defines and references, see `starboard._dependencies.analyze`.
+ */
+export async function analyzeCodeInWorker(code: string): Promise<string> {
+  const result = await sendRequest<SerializedResult>({ type: "analyzeCode", code });
+  return result.type === "value" ? result.value : "null";
+}
+
+/**
+ * Returns the JSON encoded indexes of the lines that start a statement, see `starboard._magics.statement_lines`.
+ */
+export async function findStatementLinesInWorker(code: string): Promise<string> {
+  const result = await sendRequest<SerializedResult>({ type: "findStatementLines", code });
+  return result.type === "value" ? result.value : "[]";
+}
+
+/**
+ * Returns the figure rendered in the format and base64 encoded, or undefined if it was released.
+ */
+export async function saveFigureInWorker(figureId: string, format: FigureFormat): Promise<string | undefined> {
+  const result = await sendRequest<SerializedResult>({ type: "saveFigure", figureId, format });
+  return result.type === "value" ? result.value ?? undefined : undefined;
+}
+
+export async function releaseFiguresInWorker(figureIds: string) {
+  // A worker that isn't running has no figures, and shouldn't be started for this.
+  if (worker) {
+    await sendRequest({ type: "releaseFigures", figureIds });
+  }
+}
+
+/**
+ * The virtual filesystem, see `filesystem.ts` for what these do.
+ */
+export async function listFilesInWorker(path: string): Promise<PythonFileEntry[]> {
+  const result = await sendRequest<SerializedResult>({ type: "listFiles", path });
+  return result.type === "value" ? result.value : [];
+}
+
+export async function readFileInWorker(path: string): Promise<Uint8Array> {
+  const result = await sendRequest<SerializedResult>({ type: "readFile", path });
+  return result.type === "value" ? result.value : new Uint8Array();
+}
+
+export async function writeFileInWorker(path: string, data: Uint8Array) {
+  await sendRequest({ type: "writeFile", path, data });
+}
+
+export async function deleteFileInWorker(path: string) {
+  await sendRequest({ type: "deleteFile", path });
+}
+
+/**
+ * Returns the absolute path of the directory.
+ */
+export async function persistDirectoryInWorker(path: string): Promise<string> {
+  const result = await sendRequest<SerializedResult>({ type: "persistDirectory", path });
+  return result.type === "value" ? result.value : path;
+}
+
+export async function savePersistentFilesInWorker() {
+  await sendRequest({ type: "savePersistentFiles" });
+}
+
+export async function defineModuleInWorker(name: string, source: string, directory: string) {
+  await sendRequest({ type: "defineModule", name, source, directory });
+}
+
+export async function getLoadedPackagesInWorker(): Promise<Record<string, string>> {
+  const result = await sendRequest<SerializedResult>({ type: "getLoadedPackages" });
+  return result.type === "value" ? result.value : {};
+}
+
+subscribeToVariableExports((name, encoded) => {
+  // Only a running worker needs to be kept up to date, a new one gets all variables once it is loaded.
+  if (worker) {
+    sendRequest({ type: "setVariable", name, encoded });
+  }
+});
+
+setWidgetWorkerChannel(async (messages) => {
+  await sendRequest({ type: "widgetMessages", messages });
+});
+
+export function interruptWorker() {
+  if (!interruptBuffer) {
+    return;
+  }
+
+  if (typeof SharedArrayBuffer !== "undefined" && interruptBuffer.buffer instanceof SharedArrayBuffer) {
+    Atomics.store(interruptBuffer, 0, SIGINT);
+  } else {
+    // The worker can only handle this message once the running code yields.
+    sendRequest({ type: "interrupt" });
+  }
+}
+
+export async function resetGlobalsInWorker() {
+  await sendRequest({ type: "resetGlobals" });
+}
+
+/**
+ * Stops the worker and the interpreter in it, requests that are still pending get rejected.
+ */
+export function terminateWorker() {
+  const error = new Error("The Python interpreter was restarted.");
+  error.name = "PythonRestarted";
+  stopWorker(error);
+}
+
+// The next request starts a new worker.
+function stopWorker(error: Error) {
+  if (!worker) {
+    return;
+  }
+
+  worker.terminate();
+  worker = undefined;
+  interruptBuffer = undefined;
+
+  for (const pending of pendingRequests.values()) {
+    pending.reject(error);
+  }
+  pendingRequests.clear();
+  outputCallbacks.clear();
+}
@@ -0,0 +1,78 @@
+import type { ArtifactOptions } from "./artifacts";
+import type { EditorHelpKind } from "./completion";
+import type { FigureFormat } from "./figures";
+import type { MimeBundle } from "./mime";
+import type { PackageInstallProgress } from "./packages";
+import type { PyodideLoadingProgress } from "./progress";
+import type { StreamName } from "./stream";
+
+/**
+ * Messages exchanged between the main thread and the Pyodide worker (see `worker.ts` and `workerClient.ts`).
+ */
+
+export type WorkerRequest =
+  | { type: "load"; artifacts: ArtifactOptions; interruptBuffer: Int32Array; persistentDirectories: string[] }
+  | { type: "run"; code: string; outputId: number; namespace?: string; importSource?: string }
+  | { type: "interrupt" }
+  | { type: "installPackages"; names: string[] }
+  | { type: "getLoadedPackages" }
+  // Variables shared with Python are JSON encoded, see `bridge.ts`.
+  | { type: "setVariable"; name: string; encoded: string }
+  | { type: "editorHelp"; kind: EditorHelpKind; code: string; offset: number; namespace?: string }
+  // The variable inspector, see `inspector.ts`.
+  | { type: "listVariables"; namespace?: string }
+  | { type: "inspectVariable"; name: string; path: number[]; namespace?: string }
+  | { type: "deleteVariable"; name: string; namespace?: string }
+  // Separate globals of independent Python contexts, see `namespaces.ts`.
+  | { type: "listNamespaces" }
+  | { type: "deleteNamespace"; namespace: string }
+  // Changes of widget controls, see `widgets.ts`.
+  | { type: "widgetMessages"; messages: string }
+  // Static analysis of a cell's globals for reactive re-execution, see `reactive.ts`.
+  | { type: "analyzeCode"; code: string }
+  // The lines that can be line magics, see `magics.ts`.
+  | { type: "findStatementLines"; code: string }
+  // Matplotlib figures shown in cell outputs, see `figures.ts`.
+  | { type: "saveFigure"; figureId: string; format: FigureFormat }
+  | { type: "releaseFigures"; figureIds: string }
+  // The virtual filesystem, see `files.ts`.
+  | { type: "listFiles"; path: string }
+  | { type: "readFile"; path: string }
+  | { type: "writeFile"; path: string; data: Uint8Array }
+  | { type: "deleteFile"; path: string }
+  | { type: "persistDirectory"; path: string }
+  | { type: "savePersistentFiles" }
+  // Modules defined by module cells, see `modules.ts`.
+  | { type: "defineModule"; name: string; source: string; directory: string }
+  | { type: "resetGlobals" };
+
+export interface WorkerRequestMessage {
+  id: number;
+  request: WorkerRequest;
+}
+
+/**
+ * The value of a cell run, PyProxies can't cross the worker boundary so they get converted to a mime bundle.
+ */
+export type SerializedResult = { type: "value"; value: any } | { type: "mimebundle"; bundle: MimeBundle };
+
+export interface SerializedError {
+  name: string;
+  message: string;
+}
+
+export type WorkerResponseMessage =
+  | { type: "resolve"; id: number; value?: SerializedResult }
+  | { type: "reject"; id: number; error: SerializedError }
+  | { type: "stdout" | "stderr"; id: number; text: string }
+  // Written to `sys.stdout` or `sys.stderr`, not tied to a request as background tasks can write after their run.
+  | { type: "stream"; outputId: number; name: StreamName; text: string }
+  | { type: "progress"; progress: PyodideLoadingProgress }
+  | { type: "setVariable"; name: string; encoded: string }
+  | { type: "widget"; message: string }
+  // A figure shown by `plt.show()`, it goes to the output of the cell that showed it even after its run.
+  | { type: "figure"; outputId: number; bundle: MimeBundle }
+  // `display()` and `clear_output()`, for the output of the cell the calling code belongs to like streams.
+  | { type: "display"; outputId?: number; bundle: MimeBundle }
+  | { type: "clearOutput"; outputId?: number; wait: boolean }
+  | { type: "packageProgress"; id: number; progress: PackageInstallProgress };